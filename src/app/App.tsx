@@ -6,15 +6,32 @@ import { PIECES, getEnabledPieces } from './components/TetrisShape';
 import { PaletteShape } from './components/PaletteShape';
 import { GridProvider } from './components/GridContext';
 import { ShapeCreator, CustomPiece } from './components/ShapeCreator';
+import { ResizeAnchorPicker } from './components/ResizeAnchorPicker';
+import { PuzzleLibrary } from './components/PuzzleLibrary';
+import { PuzzleGenerator } from './components/PuzzleGenerator';
+import { PuzzleFileButtons } from './components/PuzzleFileButtons';
+import { CopyLinkButton } from './components/CopyLinkButton';
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from './components/ui/alert-dialog';
+import { usePuzzleHistory } from './components/usePuzzleHistory';
+import { PuzzleFile, fromPuzzleData } from './puzzle/format';
+import { decodePuzzleLink, isPuzzleLink } from './puzzle/link';
+import { createPuzzle } from './puzzle/puzzle';
+import { DroppedContent, ResizeAnchor, describeDroppedContent, hasDroppedContent, resizePuzzle } from './puzzle/resize';
 
 const PALETTE_SHAPE_CELL_SIZE = 25;
 
 
 export default function App() {
-    const [gridRows, setGridRows] = useState<number>(5);
-    const [gridCols, setGridCols] = useState<number>(5);
+    const { puzzle, execute, undo, redo, canUndo, canRedo } = usePuzzleHistory(() => createPuzzle(5, 5));
+    const [resizeAnchor, setResizeAnchor] = useState<ResizeAnchor>('top-left');
+    const [pendingResize, setPendingResize] = useState<{ rows: number; cols: number; dropped: DroppedContent } | null>(null);
     const [editionMode, setEditionMode] = useState<boolean>(false);
     const [customShapes, setCustomShapes] = useState<CustomPiece[]>([]);
+    const [negativePalette, setNegativePalette] = useState<boolean>(false);
+    const [linkError, setLinkError] = useState<string | null>(null);
 
     // Load custom shapes from localStorage
     useEffect(() => {
@@ -33,6 +50,27 @@ export default function App() {
         localStorage.setItem('customShapes', JSON.stringify(customShapes));
     }, [customShapes]);
 
+    // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), unless typing in a field
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            }
+            else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
     const defaultPiecesIds: string[] = getEnabledPieces();
 
     const handleSaveShape = (shape: CustomPiece) => {
@@ -55,6 +93,44 @@ export default function App() {
         // Edit handled by the ShapeCreator component
     };
 
+    // Load a saved or imported puzzle, adding any custom shapes it uses to the palette
+    const handleOpenPuzzleFile = (file: PuzzleFile) => {
+        execute({ type: 'load', puzzle: fromPuzzleData(file.puzzle) });
+        setCustomShapes(prev => [
+            ...prev,
+            ...file.customShapes
+                .filter(shape => !prev.some(existing => existing.id === shape.id))
+                .map(shape => ({ ...shape, createdAt: Date.now() })),
+        ]);
+    };
+
+    // Open the puzzle from a shared link, on load and whenever the hash changes
+    useEffect(() => {
+        const openFromHash = () => {
+            if (!isPuzzleLink(window.location.hash)) return;
+            try {
+                handleOpenPuzzleFile(decodePuzzleLink(window.location.hash));
+                setLinkError(null);
+            } catch (err) {
+                setLinkError(`This puzzle link could not be opened: ${err instanceof Error ? err.message : 'unknown error'}`);
+            }
+        };
+        openFromHash();
+        window.addEventListener('hashchange', openFromHash);
+        return () => window.removeEventListener('hashchange', openFromHash);
+    }, []);
+
+    // Resizing keeps what still fits; ask before dropping anything that doesn't
+    const handleResize = (rows: number, cols: number) => {
+        if (rows === puzzle.rows && cols === puzzle.cols) return;
+        const { dropped } = resizePuzzle(puzzle, rows, cols, resizeAnchor);
+        if (hasDroppedContent(dropped)) {
+            setPendingResize({ rows, cols, dropped });
+            return;
+        }
+        execute({ type: 'resize', rows, cols, anchor: resizeAnchor });
+    };
+
     return (
         <DndProvider backend={HTML5Backend}>
             <GridProvider>
@@ -64,11 +140,29 @@ export default function App() {
                             The Witness Tetris Sandbox
                         </h1>
 
+                        {linkError && (
+                            <div className="mb-4 flex items-center justify-between gap-4 rounded-lg bg-red-100 px-4 py-2 text-sm text-red-800">
+                                <span>{linkError}</span>
+                                <button onClick={() => setLinkError(null)} className="font-semibold hover:text-red-600">
+                                    Dismiss
+                                </button>
+                            </div>
+                        )}
+
                         <div className="bg-white rounded-xl shadow-2xl p-8">
                             <div className="grid lg:grid-cols-2 gap-2">
                                 {/* Tetris shapes and creator */}
                                 <div className="space-y-6">
                                     <div>
+                                        <button
+                                            onClick={() => setNegativePalette(!negativePalette)}
+                                            className={`mb-4 px-3 py-2 rounded-lg transition-colors ${negativePalette
+                                                ? 'bg-blue-600 text-white shadow-lg hover:bg-blue-700'
+                                                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                                                }`}
+                                        >
+                                            {negativePalette ? 'Negative pieces' : 'Positive pieces'}
+                                        </button>
                                         <div className="grid gap-4 [grid-template-columns:repeat(auto-fit,minmax(120px,1fr))]">
                                             {/* Preset shapes */}
                                             {defaultPiecesIds.map((pieceId) => (
@@ -77,6 +171,7 @@ export default function App() {
                                                         type={pieceId}
                                                         color={PIECES[pieceId].color}
                                                         initialPattern={PIECES[pieceId].pattern}
+                                                        negative={negativePalette}
                                                         cellSize={PALETTE_SHAPE_CELL_SIZE}
                                                     />
                                                 </div>
@@ -89,6 +184,7 @@ export default function App() {
                                                         type={shape.id}
                                                         color={shape.color}
                                                         initialPattern={shape.pattern}
+                                                        negative={negativePalette}
                                                         cellSize={PALETTE_SHAPE_CELL_SIZE}
                                                     />
                                                     {/* Delete button on hover */}
@@ -124,8 +220,8 @@ export default function App() {
                                                 type="number"
                                                 min={1}
                                                 max={10}
-                                                value={gridRows}
-                                                onChange={(e) => setGridRows(Math.max(1, Math.min(10, parseInt(e.target.value || '1'))))}
+                                                value={puzzle.rows}
+                                                onChange={(e) => handleResize(Math.max(1, Math.min(10, parseInt(e.target.value || '1'))), puzzle.cols)}
                                                 className="rounded-lg border border-gray-300 px-2 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-center"
                                                 style={{ width: '7ch' }}
                                             />
@@ -137,17 +233,58 @@ export default function App() {
                                                 type="number"
                                                 min={1}
                                                 max={10}
-                                                value={gridCols}
-                                                onChange={(e) => setGridCols(Math.max(1, Math.min(10, parseInt(e.target.value || '1'))))}
+                                                value={puzzle.cols}
+                                                onChange={(e) => handleResize(puzzle.rows, Math.max(1, Math.min(10, parseInt(e.target.value || '1'))))}
                                                 className="rounded-lg border border-gray-300 px-2 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-center"
                                                 style={{ width: '7ch' }}
                                             />
                                         </div>
+                                        <div className="flex flex-col items-start">
+                                            <span className="text-sm font-medium text-gray-700 mb-1">Anchor</span>
+                                            <ResizeAnchorPicker anchor={resizeAnchor} onChange={setResizeAnchor} />
+                                        </div>
+                                        <div className="flex flex-wrap justify-center gap-2 self-end">
+                                            <button
+                                                onClick={undo}
+                                                disabled={!canUndo}
+                                                title="Undo (Ctrl+Z)"
+                                                className="px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                                            >
+                                                Undo
+                                            </button>
+                                            <button
+                                                onClick={redo}
+                                                disabled={!canRedo}
+                                                title="Redo (Ctrl+Shift+Z)"
+                                                className="px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                                            >
+                                                Redo
+                                            </button>
+                                            <PuzzleGenerator
+                                                puzzle={puzzle}
+                                                customShapes={customShapes}
+                                                onGenerate={(generated) => execute({ type: 'load', puzzle: generated })}
+                                            />
+                                            <PuzzleLibrary
+                                                puzzle={puzzle}
+                                                customShapes={customShapes}
+                                                onOpenPuzzle={handleOpenPuzzleFile}
+                                            />
+                                            <PuzzleFileButtons
+                                                puzzle={puzzle}
+                                                customShapes={customShapes}
+                                                onImport={handleOpenPuzzleFile}
+                                            />
+                                            <CopyLinkButton puzzle={puzzle} customShapes={customShapes} />
+                                        </div>
                                     </div>
                                     <Grid
-                                        key={`${gridRows}x${gridCols}`}
-                                        rows={gridRows}
-                                        cols={gridCols}
+                                        puzzle={puzzle}
+                                        paletteShapes={[
+                                            ...defaultPiecesIds.map(id => ({ id, ...PIECES[id] })),
+                                            ...customShapes,
+                                        ]}
+                                        onCommand={execute}
                                         editionMode={editionMode}
                                         onToggleEditionMode={() => setEditionMode(!editionMode)}
                                     />
@@ -159,14 +296,59 @@ export default function App() {
                                 <h3 className="font-semibold text-blue-900 mb-2">How to use:</h3>
                                 <ul className="text-sm text-blue-800 space-y-1">
                                     <li>• Toggle edition mode to draw walls on grid edges, or markers on cells</li>
+                                    <li>• In edition mode, right-click a clue to tilt it: tilted clues may be placed in any rotation, upright ones only as drawn</li>
+                                    <li>• Change rows or columns at any time: the anchor picks which side of the puzzle stays in place</li>
                                     <li>• Drag shapes to move them or drag outside to remove</li>
+                                    <li>• Switch the palette to negative pieces: hollow blue pieces that cancel the blocks they overlap, as clues or on the grid</li>
                                     <li>• Click shapes to rotate them 90°</li>
+                                    <li>• Undo and redo any change with Ctrl+Z and Ctrl+Shift+Z</li>
+                                    <li>• Click "Generate" for a random puzzle with a unique solution: the same seed always gives the same puzzle</li>
+                                    <li>• The meter above the grid rates the puzzle from Trivial to Expert by how much searching it takes (hover it for details)</li>
+                                    <li>• Open the library to save, rename, duplicate and reopen puzzles, sorted or filtered by difficulty</li>
+                                    <li>• Export the puzzle to a .witness.json file, or import one shared by someone else</li>
+                                    <li>• Click "Copy link" to share the puzzle (and its pieces if checked) as a URL</li>
                                     <li>• Click "Create new shape" to build custom shapes by clicking cells</li>
+                                    <li>• Turn on "Regions" to tint each walled region with a badge of its area / clue area, red when they can't match</li>
+                                    <li>• Turn on "Heatmap" and click a clue (or pick a shape) to shade each cell by how many legal placements cover it; "!" marks cells every placement covers</li>
+                                    <li>• Right-click placed pieces to pin them, then "Complete" solves the rest around them (all pieces count when none are pinned) or points at the piece leading to a dead end</li>
+                                    <li>• Stuck? "Hint" highlights the next forced placement and explains why; press "Place" to put it on the grid</li>
+                                    <li>• Click "Check" to verify your pieces: offending cells and walls are highlighted in red</li>
+                                    <li>• In edition mode, "Count" lists the puzzle's solutions up to a limit so you can step through them and make it unique</li>
+                                    <li>• Click "Solve" to fill every walled region with the clue pieces it contains; when there is no solution it explains why (area, checkerboard parity, pieces that fit nowhere...)</li>
+                                    <li>• In edition mode, pick a tool to draw walls, put start circles on vertices, end caps on border vertices, broken edges the line can't cross, or hexagon dots on vertices and edges that the line must pass through</li>
+                                    <li>• The Square and Star tools put a symbol of the picked color in the clicked cell: "Check" flags regions mixing square colors, and stars without exactly one other symbol of their color in their region</li>
+                                    <li>• The Elimination tool puts a Y mark in a cell: it must cancel exactly one other symbol of its region that breaks a rule, and "Check" fades out the symbol it cancelled</li>
+                                    <li>• Turn on "Play Mode", then click a start circle and move (or use the arrow keys) to trace the line: moving back undoes a step, and the line can't cross itself or a broken edge. Its path becomes the walls</li>
+                                    <li>• Click "Find Line" to draw a line from the start circle (or bottom-left corner) to the end cap (or top-right corner) that splits the clues into solvable regions</li>
                                 </ul>
                             </div>
                         </div>
                     </div>
                 </div>
+                <AlertDialog open={pendingResize !== null} onOpenChange={(open) => !open && setPendingResize(null)}>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Remove content outside the new grid?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                Resizing to {pendingResize?.rows}×{pendingResize?.cols} will remove{' '}
+                                {pendingResize && describeDroppedContent(pendingResize.dropped)}.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                                onClick={() => {
+                                    if (pendingResize) {
+                                        execute({ type: 'resize', rows: pendingResize.rows, cols: pendingResize.cols, anchor: resizeAnchor });
+                                    }
+                                    setPendingResize(null);
+                                }}
+                            >
+                                Resize
+                            </AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
             </GridProvider>
         </DndProvider>
     );
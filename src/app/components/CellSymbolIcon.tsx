@@ -0,0 +1,41 @@
+import React from 'react';
+import { CellSymbol } from '../puzzle/types';
+
+
+// Colors offered for squares and stars. After black and white come the first
+// palette colors, so stars can pair with the tetris clues of the default shapes.
+export const SYMBOL_COLORS = ['#000000', '#ffffff', '#F5BE02', '#00f0f0', '#a000f0', '#00f000', '#f00000'];
+
+// Symbols drawn as an icon; tetris clues are drawn as their pattern instead
+export type IconSymbol = Exclude<CellSymbol, { kind: 'tetris' }>;
+
+
+// Eight-pointed star, drawn like two squares with one turned by 45°
+export const getStarPoints = (cx: number, cy: number, radius: number): string =>
+    Array.from({ length: 16 }, (_, i) => {
+        const angle = Math.PI / 8 * i - Math.PI / 2;
+        const r = i % 2 === 0 ? radius : radius * 0.77;
+        return `${cx + r * Math.cos(angle)},${cy + r * Math.sin(angle)}`;
+    }).join(' ');
+
+
+// Elimination mark: three arms from the center, shaped like a Y
+export const getEliminationPath = (cx: number, cy: number, radius: number): string =>
+    [90, 210, 330].map(degrees => {
+        const angle = degrees * Math.PI / 180;
+        return `M${cx},${cy} L${cx + radius * Math.cos(angle)},${cy + radius * Math.sin(angle)}`;
+    }).join(' ');
+
+
+interface CellSymbolIconProps {
+    symbol: IconSymbol;
+    size: number;
+}
+
+export const CellSymbolIcon: React.FC<CellSymbolIconProps> = ({ symbol, size }) => (
+    <svg width={size} height={size} viewBox="0 0 20 20" className="pointer-events-none">
+        {symbol.kind === 'square' && <rect x={3} y={3} width={14} height={14} rx={4} fill={symbol.color} />}
+        {symbol.kind === 'star' && <polygon points={getStarPoints(10, 10, 9.5)} fill={symbol.color} />}
+        {symbol.kind === 'elimination' && <path d={getEliminationPath(10, 10, 8)} stroke="white" strokeWidth={3} strokeLinecap="round" fill="none" />}
+    </svg>
+);
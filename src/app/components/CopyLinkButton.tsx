@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { PuzzleFileShape, createPuzzleFile } from '../puzzle/format';
+import { encodePuzzleLink } from '../puzzle/link';
+import { Puzzle } from '../puzzle/types';
+
+
+interface CopyLinkButtonProps {
+    puzzle: Puzzle;
+    customShapes: PuzzleFileShape[];
+}
+
+
+// Copies a link that reopens the current puzzle, optionally with its placed pieces
+export const CopyLinkButton: React.FC<CopyLinkButtonProps> = ({ puzzle, customShapes }) => {
+    const [includePieces, setIncludePieces] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    // Hide the confirmation after a moment
+    useEffect(() => {
+        if (!message || message.isError) return;
+        const timeout = setTimeout(() => setMessage(null), 2000);
+        return () => clearTimeout(timeout);
+    }, [message]);
+
+    const handleCopy = async () => {
+        try {
+            const hash = encodePuzzleLink(createPuzzleFile(puzzle, customShapes, { includePieces }));
+            const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+            await navigator.clipboard.writeText(url);
+            setMessage({ text: 'Link copied', isError: false });
+        } catch (err) {
+            setMessage({ text: `Could not copy the link: ${err instanceof Error ? err.message : 'unknown error'}`, isError: true });
+        }
+    };
+
+    return (
+        <>
+            <button
+                onClick={handleCopy}
+                className="px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+                {message && !message.isError ? message.text : 'Copy link'}
+            </button>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={includePieces}
+                    onChange={(e) => setIncludePieces(e.target.checked)}
+                />
+                with pieces
+            </label>
+            {message?.isError && (
+                <p className="basis-full text-sm text-red-600 text-center">{message.text}</p>
+            )}
+        </>
+    );
+};
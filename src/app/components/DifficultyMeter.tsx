@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DifficultyLabel, DifficultyRating } from '../solver/difficulty';
+import { useSolver } from '../solver/useSolver';
+import { getCellMinis, hasEliminationMarks } from '../puzzle/puzzle';
+import { ClueMini, Puzzle } from '../puzzle/types';
+
+
+interface DifficultyMeterProps {
+    puzzle: Puzzle;
+}
+
+export const DIFFICULTY_COLORS: Record<DifficultyLabel, string> = {
+    Trivial: '#9ca3af',
+    Easy: '#22c55e',
+    Medium: '#eab308',
+    Hard: '#f97316',
+    Expert: '#ef4444',
+};
+
+// Wait for edits to settle before rating
+const RATE_DELAY_MS = 300;
+
+
+const describeMetrics = ({ metrics, solutions, capped }: DifficultyRating): string => [
+    `${metrics.regions} clue region${metrics.regions === 1 ? '' : 's'}`,
+    `${metrics.choices} choices, ${metrics.forced} forced deductions, ${metrics.backtracks} backtracks`,
+    `branching factor ${metrics.branchingFactor.toFixed(1)}`,
+    capped ? 'search stopped early: rated at the top of the scale'
+        : solutions === 0 ? 'no solution' : solutions === 1 ? 'unique solution' : 'several solutions',
+    'squares, stars and elimination marks are not rated',
+].join('\n');
+
+
+// Editing squares or stars gives a new clue map with the same clues, which shouldn't
+// restart the rating, so the previous map is kept while the clues are unchanged
+const useStableClues = (puzzle: Puzzle): Map<string, ClueMini> => {
+    const cellMinis = getCellMinis(puzzle);
+    const cluesRef = useRef<{ source: Map<string, ClueMini>; key: string; clues: Map<string, ClueMini> } | null>(null);
+    if (cluesRef.current?.source !== cellMinis) {
+        const key = JSON.stringify([...cellMinis]);
+        const clues = cluesRef.current?.key === key ? cluesRef.current.clues : cellMinis;
+        cluesRef.current = { source: cellMinis, key, clues };
+    }
+    return cluesRef.current.clues;
+};
+
+
+// Rates how hard it is to tile the regions inside the current walls, in the
+// background whenever the walls or tetris clues change. The line search isn't
+// rated, so this is the difficulty of the drawn layout rather than of the puzzle.
+export const DifficultyMeter: React.FC<DifficultyMeterProps> = ({ puzzle }) => {
+    const { start, cancel } = useSolver();
+    const [rating, setRating] = useState<DifficultyRating | null>(null);
+    const [failed, setFailed] = useState(false);
+    const { rows, cols, walls } = puzzle;
+    const cellMinis = useStableClues(puzzle);
+
+    useEffect(() => {
+        setRating(null);
+        setFailed(false);
+        if (cellMinis.size === 0) return;
+        const timer = setTimeout(() => {
+            start({ kind: 'rate', rows, cols, walls, cellMinis }, {
+                onSolution: (solution) => {
+                    if (solution.kind === 'rate') setRating(solution.rating);
+                },
+                onDone: (outcome) => setFailed(outcome === 'error'),
+            }, { background: true });
+        }, RATE_DELAY_MS);
+        // A rating still running is for the previous layout
+        return () => {
+            clearTimeout(timer);
+            cancel();
+        };
+    }, [rows, cols, walls, cellMinis, start, cancel]);
+
+    if (cellMinis.size === 0) return null;
+
+    const color = rating ? DIFFICULTY_COLORS[rating.label] : '#d1d5db';
+    return (
+        <div className="flex items-center gap-2 text-sm" title={rating ? describeMetrics(rating) : undefined}>
+            <span className="text-gray-600">Tiling difficulty</span>
+            <div className="w-32 h-2 rounded-full bg-gray-200 overflow-hidden">
+                <div
+                    className="h-full rounded-full transition-all"
+                    style={{ width: `${rating ? Math.max(4, rating.score) : 0}%`, backgroundColor: color }}
+                />
+            </div>
+            <span className="font-medium tabular-nums" style={{ color: rating ? color : undefined }}>
+                {rating ? `${rating.label} (${rating.score})` : failed ? 'Rating failed' : 'Rating…'}
+            </span>
+            {rating?.solutions === 0 && <span className="text-red-600">· unsolvable</span>}
+            {rating?.solutions === 2 && <span className="text-red-600">· not unique</span>}
+            {rating && hasEliminationMarks(puzzle) && <span className="text-gray-500">· elimination marks ignored</span>}
+        </div>
+    );
+};
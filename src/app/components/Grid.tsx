@@ -1,6 +1,24 @@
-import { useState, useRef, useLayoutEffect, useContext, useCallback } from 'react';
+import { useState, useRef, useEffect, useLayoutEffect, useContext, useCallback, useMemo } from 'react';
 import GridContext from './GridContext';
 import { useDrop, useDrag, useDragLayer } from 'react-dnd';
+import { Progress } from './ui/progress';
+import { getDropOrigin, getNearestCell, getPatternCells, isValidPattern, parseCellId } from '../puzzle/geometry';
+import { PuzzleCommand } from '../puzzle/commands';
+import { getCellColor, getCellMinis, hasEliminationMarks, isInBounds } from '../puzzle/puzzle';
+import { isLineComplete, parseVertexId, toVertexId } from '../puzzle/line';
+import { computePlacementHeatmap } from '../puzzle/heatmap';
+import { computeRegions, summarizeRegions } from '../puzzle/regions';
+import { CellId, Pattern, PlacedPiece, Puzzle } from '../puzzle/types';
+import { ValidationResult, validatePuzzle } from '../puzzle/validate';
+import { UnsolvabilityReason, findUnsolvabilityProofs, getSearchProof } from '../solver/explain';
+import { Hint } from '../solver/hint';
+import { toPlacedPieces } from '../solver/tiling';
+import { useSolver } from '../solver/useSolver';
+import { NEGATIVE_COLOR } from './TetrisShape';
+import { SolutionCounter } from './SolutionCounter';
+import { DifficultyMeter } from './DifficultyMeter';
+import { LineLayer, LineTool } from './LineLayer';
+import { CellSymbolIcon, IconSymbol, SYMBOL_COLORS } from './CellSymbolIcon';
 
 
 const gridCellSize = 30;
@@ -9,207 +27,330 @@ const wallWidth = 5;
 const gridCellColor = '#2d3748';
 const gridBackgroundColor = '#1a202c';
 const wallColor = 'white';
+const conflictColor = '#ef4444';
+const conflictShadow = 'inset 0 0 0 3px rgba(239, 68, 68, 0.9)';
+const hintShadow = 'inset 0 0 0 3px rgba(245, 158, 11, 0.95), 0 0 10px rgba(245, 158, 11, 0.5)';
 
 
+// What clicks on edges, vertices and cells edit in edition mode
+type EditionTool = 'wall' | 'start' | 'end' | 'broken' | 'dot' | 'square' | 'star' | 'elimination';
+
+const EDITION_TOOLS: { tool: EditionTool; label: string }[] = [
+    { tool: 'wall', label: 'Walls' },
+    { tool: 'start', label: 'Start' },
+    { tool: 'end', label: 'End' },
+    { tool: 'broken', label: 'Broken edge' },
+    { tool: 'dot', label: 'Dot' },
+    { tool: 'square', label: 'Square' },
+    { tool: 'star', label: 'Star' },
+    { tool: 'elimination', label: 'Elimination' },
+];
+
+
+// Shape whose legal placements the heatmap shows: a clue on the grid, or a palette shape
+type HeatmapSource = { kind: 'clue'; cellId: CellId } | { kind: 'shape'; id: string };
+
 interface GridProps {
-    rows: number;
-    cols: number;
+    puzzle: Puzzle;
+    // Palette shapes offered in the heatmap view
+    paletteShapes?: { id: string; pattern: Pattern; color: string }[];
+    onCommand: (command: PuzzleCommand) => void;
     editionMode: boolean;
     onToggleEditionMode: () => void;
     gridCellSize?: number;
     gridPaddingSize?: number;
 }
 
-interface PlacedPiece {
-    id: string;
-    type: string;
-    pattern: number[][];
-    originalPattern: number[][];
-    color: string;
-    row: number;
-    col: number;
-    rotation: number;
-}
-
-export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEditionMode, gridCellSize: propGridCellSize, gridPaddingSize: propGridPaddingSize }) => {
-    const [pieces, setPieces] = useState<PlacedPiece[]>([]);
-    const [walls, setWalls] = useState<Set<string>>(new Set());
-    const [markedCells, setMarkedCells] = useState<Set<string>>(new Set());
-    const [cellMinis, setCellMinis] = useState<Map<string, { pattern: number[][]; color: string }>>(new Map());
+export const Grid: React.FC<GridProps> = ({ puzzle, paletteShapes = [], onCommand, editionMode, onToggleEditionMode, gridCellSize: propGridCellSize, gridPaddingSize: propGridPaddingSize }) => {
     const [hoveredCell, setHoveredCell] = useState<string | null>(null);
     const [hoveredEdgeId, setHoveredEdgeId] = useState<string | null>(null);
+    const [solveMessage, setSolveMessage] = useState<string | null>(null);
+    const [validation, setValidation] = useState<ValidationResult | null>(null);
+    const [hint, setHint] = useState<Hint | null>(null);
+    const [unsolvable, setUnsolvable] = useState<UnsolvabilityReason[] | null>(null);
+    // Pieces kept in place by "Complete"; when none are pinned, every piece is
+    const [pinnedIds, setPinnedIds] = useState<Set<string>>(new Set());
+    const [deadEnd, setDeadEnd] = useState<{ cells: CellId[]; message: string } | null>(null);
+    const [showRegions, setShowRegions] = useState(false);
+    const [previewPieces, setPreviewPieces] = useState<PlacedPiece[] | null>(null);
+    const [showHeatmap, setShowHeatmap] = useState(false);
+    const [heatmapSource, setHeatmapSource] = useState<HeatmapSource | null>(null);
+    const [playMode, setPlayMode] = useState(false);
+    const [editionTool, setEditionTool] = useState<EditionTool>('wall');
+    const [symbolColor, setSymbolColor] = useState(SYMBOL_COLORS[0]);
     const containerRef = useRef<HTMLDivElement | null>(null);
     const gridCtx = useContext(GridContext);
+    // Results for an older version of the puzzle are dropped
+    const solver = useSolver(puzzle);
+    const { rows, cols, pieces, walls, markedCells, cellSymbols, starts, ends, brokenEdges, dots, line } = puzzle;
+    const cellMinis = getCellMinis(puzzle);
+    // Hints and completion only look at tetris clues, and say so when marks could cancel some
+    const marksIgnored = hasEliminationMarks(puzzle);
+    // Vertex clicks place start circles and end caps in edition mode, and trace the line in play mode
+    const activeLineTool: LineTool | null = editionMode
+        ? (editionTool === 'start' || editionTool === 'end' || editionTool === 'dot' ? editionTool : null)
+        : (playMode ? 'draw' : null);
+    // Cell clicks place squares and stars of the picked color, or elimination marks, or take them back out
+    const symbolTool: IconSymbol['kind'] | null = editionMode && (editionTool === 'square' || editionTool === 'star' || editionTool === 'elimination') ? editionTool : null;
+    const toggleSymbol = (cellId: CellId, kind: IconSymbol['kind']) => {
+        const current = cellSymbols.get(cellId);
+        const same = current?.kind === kind && (current.kind === 'elimination' || current.color === symbolColor);
+        onCommand({ type: 'setSymbol', cellId, symbol: same ? null : kind === 'elimination' ? { kind } : { kind, color: symbolColor } });
+    };
+    const toggleEdge = (edgeId: string) => onCommand(editionTool === 'broken'
+        ? { type: 'toggleBrokenEdge', edgeId }
+        : { type: 'toggleWall', edgeId });
+    // The drop target is created once per layout, so it reads the latest puzzle through a ref
+    const puzzleRef = useRef(puzzle);
+    puzzleRef.current = puzzle;
+
+    const regionSummaries = useMemo(
+        () => showRegions ? summarizeRegions(rows, cols, walls, cellMinis) : [],
+        [showRegions, rows, cols, walls, cellMinis],
+    );
+
+    // Clues cover their own region in their allowed rotations; palette shapes any region in every rotation
+    const heatmapShape = heatmapSource?.kind === 'clue'
+        ? cellMinis.get(heatmapSource.cellId)
+        : paletteShapes.find(shape => shape.id === heatmapSource?.id);
+    const heatmapPattern = heatmapShape?.pattern;
+    const heatmapRotatable = heatmapShape && 'rotatable' in heatmapShape ? heatmapShape.rotatable : true;
+    const heatmap = useMemo(() => {
+        if (!showHeatmap || !heatmapSource || !heatmapPattern) return null;
+        const cells = heatmapSource.kind === 'clue'
+            ? computeRegions(rows, cols, walls).find(region => region.includes(heatmapSource.cellId))!
+            : Array.from({ length: rows * cols }, (_, index) => `${Math.floor(index / cols)}-${index % cols}`);
+        return computePlacementHeatmap(heatmapPattern, heatmapRotatable, new Set(cells), walls);
+    }, [showHeatmap, heatmapSource, heatmapPattern, heatmapRotatable, rows, cols, walls]);
+    const heatmapMax = heatmap ? Math.max(0, ...heatmap.counts.values()) : 0;
+
+    // A check result, hint or explanation only describes the puzzle it was computed for
+    useEffect(() => {
+        setValidation(null);
+        setHint(null);
+        setUnsolvable(null);
+        setDeadEnd(null);
+    }, [puzzle]);
+
+    // Forget pins of removed pieces
+    useEffect(() => {
+        setPinnedIds(prev => {
+            const kept = new Set(pieces.filter(piece => prev.has(piece.id)).map(piece => piece.id));
+            return kept.size === prev.size ? prev : kept;
+        });
+    }, [pieces]);
+    const togglePinned = (id: string) => setPinnedIds(prev => {
+        const next = new Set(prev);
+        if (!next.delete(id)) next.add(id);
+        return next;
+    });
+    const hintCells = new Set(hint && hint.kind !== 'none' ? hint.cells : []);
+    const unsolvableCells = new Set([...(unsolvable?.flatMap(reason => reason.cells) ?? []), ...(deadEnd?.cells ?? [])]);
+
+    // A previewed solution is drawn instead of the pieces until they change or edition mode ends
+    useEffect(() => setPreviewPieces(null), [pieces, editionMode]);
+    const shownPuzzle = previewPieces ? { ...puzzle, pieces: previewPieces } : puzzle;
+    const negativeCells = new Set(shownPuzzle.pieces
+        .filter(piece => piece.negative)
+        .flatMap(piece => getPatternCells(piece.pattern, piece.row, piece.col).map(([r, c]) => `${r}-${c}`)));
 
     const cellSize = propGridCellSize ?? gridCellSize;
     const gapSize = propGridPaddingSize ?? gridPaddingSize;
     const containerPadding = gapSize + 3;
     const gridInnerWidth = cols * cellSize + (cols - 1) * gapSize;
     const gridInnerHeight = rows * cellSize + (rows - 1) * gapSize;
+    const layout = { cellSize, gapSize };
 
-    const rotatePattern = (pattern: number[][]): number[][] => {
-        const rows = pattern.length;
-        const cols = pattern[0].length;
-        const rotated: number[][] = Array(cols).fill(null).map(() => Array(rows).fill(0));
-
-        for (let i = 0; i < rows; i++) {
-            for (let j = 0; j < cols; j++) {
-                rotated[j][rows - 1 - i] = pattern[i][j];
-            }
-        }
-
-        return rotated;
+    // Pointer position relative to the top-left corner of the first cell
+    const toGridPoint = (clientOffset: { x: number, y: number }): [number, number] | null => {
+        if (!containerRef.current) return null;
+        const rect = containerRef.current.getBoundingClientRect();
+        return [clientOffset.x - rect.left - containerPadding, clientOffset.y - rect.top - containerPadding];
     };
 
     const handleDrop = (item: any, clientOffset: { x: number, y: number } | null) => {
-        if (!clientOffset || !containerRef.current) return;
+        const point = clientOffset && toGridPoint(clientOffset);
+        if (!point) return;
 
-        const { pattern, type, color, pieceId } = item;
+        const { pattern, type, color, pieceId, negative } = item;
 
         // Safety check: ensure pattern exists and is valid
-        if (!pattern || !Array.isArray(pattern) || pattern.length === 0 || !pattern[0]) {
+        if (!isValidPattern(pattern)) {
             return;
         }
 
-        const rect = containerRef.current.getBoundingClientRect();
-        const padding = containerPadding; // effective padding
-
         // Edition mode: drop a miniature of the piece into the nearest cell center
         if (editionMode) {
-            const xInGrid = clientOffset.x - rect.left - padding;
-            const yInGrid = clientOffset.y - rect.top - padding;
-            let colCell = Math.round(xInGrid / (cellSize + gapSize));
-            let rowCell = Math.round(yInGrid / (cellSize + gapSize));
-            if (colCell < 0 || colCell >= cols || rowCell < 0 || rowCell >= rows) return;
-            const cellId = `${rowCell}-${colCell}`;
-            // Deep-clone the pattern to preserve current rotation state at drop time
-            const clonedPattern: number[][] = pattern.map((r: number[]) => [...r]);
-            setCellMinis(prev => {
-                const next = new Map(prev);
-                next.set(cellId, { pattern: clonedPattern, color });
-                return next;
-            });
-            // Replace the white marker with the mini if it exists
-            setMarkedCells(prev => {
-                if (!prev.has(cellId)) return prev;
-                const next = new Set(prev);
-                next.delete(cellId);
-                return next;
-            });
+            const [rowCell, colCell] = getNearestCell(layout, point[0], point[1]);
+            if (!isInBounds(puzzle, rowCell, colCell)) return;
+            // New clues are upright, like most clues in the game; right-click tilts them
+            onCommand({ type: 'setClue', cellId: `${rowCell}-${colCell}`, mini: { pattern, color, rotatable: false, ...(negative ? { negative: true } : {}) } });
             return;
         }
 
-        // Compute pointer offset (where in the piece did user grab it)
-        const pointerOffset = item.pointerOffset || { x: 0, y: 0 };
-        const patternCols = pattern[0].length;
-        const patternRows = pattern.length;
-        let blockIndexX = Math.floor(pointerOffset.x / (cellSize + gapSize));
-        let blockIndexY = Math.floor(pointerOffset.y / (cellSize + gapSize));
-        if (blockIndexX < 0) blockIndexX = 0;
-        if (blockIndexY < 0) blockIndexY = 0;
-        if (blockIndexX >= patternCols) blockIndexX = patternCols - 1;
-        if (blockIndexY >= patternRows) blockIndexY = patternRows - 1;
-
-        // Compute drop cell accounting for padding and gaps (round to nearest cell)
-        const xInGrid = clientOffset.x - rect.left - padding;
-        const yInGrid = clientOffset.y - rect.top - padding;
-        let col = Math.round(xInGrid / (cellSize + gapSize)) - blockIndexX;
-        let row = Math.round(yInGrid / (cellSize + gapSize)) - blockIndexY;
-
-        // Validate placement (bounds only, overlaps allowed)
-        for (let i = 0; i < pattern.length; i++) {
-            for (let j = 0; j < pattern[i].length; j++) {
-                if (pattern[i][j]) {
-                    const targetRow = row + i;
-                    const targetCol = col + j;
-                    if (targetRow >= rows || targetCol >= cols || targetRow < 0 || targetCol < 0) {
-                        return; // Shape doesn't fit
-                    }
-                }
-            }
+        // The pattern from the drag item is always the current (possibly rotated) pattern
+        const [row, col] = getDropOrigin(layout, pattern, point[0], point[1], item.pointerOffset || { x: 0, y: 0 });
+        const existingPiece = puzzleRef.current.pieces.find(p => p.id === pieceId);
+        onCommand({
+            type: 'placePiece',
+            piece: {
+                id: pieceId || `piece-${Date.now()}-${Math.random()}`,
+                type,
+                pattern,
+                originalPattern: existingPiece?.originalPattern || pattern,
+                color,
+                ...(negative ? { negative: true } : {}),
+                row,
+                col,
+                rotation: existingPiece?.rotation || 0,
+            },
+        });
+    };
+
+    const clearGrid = () => {
+        onCommand({ type: 'clear' });
+        setSolveMessage(null);
+    };
+
+    const checkGrid = () => {
+        if (cellSymbols.size === 0 && dots.size === 0) {
+            setSolveMessage('Add clue pieces, symbols or dots in edition mode before checking');
+            return;
         }
+        setSolveMessage(null);
+        setValidation(validatePuzzle(puzzle));
+    };
 
-        // Atomically remove old piece (if any) and add new piece
-        // The pattern from drag item is always the current (possibly rotated) pattern
-        const existingPiece = pieces.find(p => p.id === pieceId);
-        const originalPattern = existingPiece?.originalPattern || pattern;
-        const currentRotation = existingPiece?.rotation || 0;
-
-        const newPiece: PlacedPiece = {
-            id: pieceId || `piece-${Date.now()}-${Math.random()}`,
-            type,
-            pattern: pattern, // already rotated if applicable
-            originalPattern,
-            color,
-            row,
-            col,
-            rotation: currentRotation,
-        };
+    // First press explains the next forced placement, second press places it
+    const showHint = () => {
+        if (hint?.kind === 'placement') {
+            onCommand({ type: 'placePiece', piece: toPlacedPieces([hint.placement])[0] });
+            return;
+        }
+        if (cellMinis.size === 0) {
+            setSolveMessage('Add clue pieces in edition mode before asking for a hint');
+            return;
+        }
 
-        setPieces(prev => {
-            const without = prev.filter(p => !(pieceId && p.id === pieceId));
-            return [...without, newPiece];
+        setSolveMessage(null);
+        setValidation(null);
+        solver.start({ kind: 'hint', rows, cols, walls, cellMinis, pieces }, {
+            onSolution: (solution) => {
+                if (solution.kind === 'hint') setHint(solution.hint);
+            },
+            onDone: (outcome, _failure, error) => {
+                if (outcome === 'cancelled') setSolveMessage('Search cancelled');
+                else if (outcome === 'error') setSolveMessage(`The solver failed: ${error}`);
+            },
         });
     };
 
-    const removePiece = (id: string) => {
-        setPieces(prev => prev.filter(p => p.id !== id));
-    };
+    const solveGrid = () => {
+        if (cellMinis.size === 0) {
+            setSolveMessage('Add clue pieces in edition mode before solving');
+            return;
+        }
 
-    const rotatePiece = (id: string) => {
-        setPieces(prev => prev.map(p => {
-            if (p.id === id) {
-                const rotatedPattern = rotatePattern(p.pattern);
-                return { ...p, pattern: rotatedPattern, rotation: (p.rotation + 90) % 360 };
-            }
-            return p;
-        }));
-    };
+        setSolveMessage(null);
+        setUnsolvable(null);
 
-    const toggleWall = (wallId: string) => {
-        setWalls(prev => {
-            const newWalls = new Set(prev);
-            if (newWalls.has(wallId)) {
-                newWalls.delete(wallId);
-            } 
-            else {
-                newWalls.add(wallId);
-            }
-            return newWalls;
+        // Cheap proofs first, so an obviously impossible puzzle doesn't trigger a search
+        const proofs = findUnsolvabilityProofs(rows, cols, walls, cellMinis);
+        if (proofs.length > 0) {
+            setUnsolvable(proofs);
+            return;
+        }
+
+        solver.start({ kind: 'tiling', rows, cols, walls, cellMinis }, {
+            onSolution: (solution) => {
+                if (solution.kind !== 'tiling') return;
+                // Replace the current attempt with the solution
+                onCommand({ type: 'setPieces', pieces: toPlacedPieces(solution.placements) });
+            },
+            onDone: (outcome, failure, error) => {
+                if (outcome === 'cancelled') {
+                    setSolveMessage('Search cancelled');
+                }
+                else if (outcome === 'error') {
+                    setSolveMessage(`The solver failed: ${error}`);
+                }
+                else if (failure) {
+                    setUnsolvable([getSearchProof(failure.region)]);
+                }
+            },
         });
     };
 
-    const clearGrid = () => {
-        setPieces([]);
-        setWalls(new Set());
-        setMarkedCells(new Set());
-        setCellMinis(new Map());
+    // Solve for the remaining clues around the pinned pieces, or all pieces when none are pinned
+    const completeGrid = () => {
+        if (cellMinis.size === 0) {
+            setSolveMessage('Add clue pieces in edition mode before completing');
+            return;
+        }
+
+        const fixed = pinnedIds.size > 0 ? pieces.filter(piece => pinnedIds.has(piece.id)) : pieces;
+        setSolveMessage(null);
+        setDeadEnd(null);
+        solver.start({ kind: 'complete', rows, cols, walls, cellMinis, fixed }, {
+            onSolution: (solution) => {
+                if (solution.kind !== 'complete') return;
+                const { result } = solution;
+                if (result.completed) {
+                    onCommand({ type: 'setPieces', pieces: [...fixed, ...toPlacedPieces(result.placements)] });
+                    if (marksIgnored) setSolveMessage('Completed from the tetris clues alone: elimination marks were ignored');
+                }
+                else {
+                    setDeadEnd({ cells: result.cells, message: `${result.message}${marksIgnored ? ' (elimination marks were ignored)' : ''}` });
+                }
+            },
+            onDone: (outcome, _failure, error) => {
+                if (outcome === 'cancelled') setSolveMessage('Search cancelled');
+                else if (outcome === 'error') setSolveMessage(`The solver failed: ${error}`);
+            },
+        });
     };
 
-    const toggleMarkedCell = (cellId: string) => {
-        // First check if there's a mini piece - remove it if present
-        if (cellMinis.has(cellId)) {
-            setCellMinis(prev => {
-                const next = new Map(prev);
-                next.delete(cellId);
-                return next;
-            });
+    // Find a start-to-end line from the clues alone and show it as walls
+    const findLine = () => {
+        if (cellSymbols.size === 0 && dots.size === 0) {
+            setSolveMessage('Add clues, squares, stars or dots in edition mode before searching for a line');
             return;
         }
-        
-        // Otherwise toggle the white marker
-        setMarkedCells(prev => {
-            const newMarked = new Set(prev);
-            if (newMarked.has(cellId)) {
-                newMarked.delete(cellId);
-            } 
-            else {
-                newMarked.add(cellId);
-            }
-            return newMarked;
+
+        // Start circles and end caps, if placed, replace the default corners
+        setSolveMessage(null);
+        solver.start({ kind: 'line', rows, cols, cellMinis, options: { starts: [...starts].map(parseVertexId), ends: [...ends].map(parseVertexId), brokenEdges, dots, cellSymbols } }, {
+            onSolution: (solution) => {
+                if (solution.kind !== 'line') return;
+                onCommand({
+                    type: 'batch',
+                    commands: [
+                        { type: 'setLine', line: solution.solution.path.map(toVertexId) },
+                        { type: 'setPieces', pieces: [] },
+                    ],
+                });
+            },
+            onDone: (outcome, _failure, error) => {
+                if (outcome === 'cancelled') {
+                    setSolveMessage('Search cancelled');
+                }
+                else if (outcome === 'error') {
+                    setSolveMessage(`The solver failed: ${error}`);
+                }
+                else if (outcome === 'unsolvable') {
+                    setSolveMessage(`No line from ${starts.size > 0 ? 'any start circle' : 'the bottom-left corner'} to ${ends.size > 0 ? 'any end cap' : 'the top-right corner'} satisfies these ${dots.size > 0 ? 'clues and dots' : 'clues'}`);
+                }
+            },
         });
     };
 
+    const getPlayModeMessage = (): string => {
+        if (editionMode) return 'Leave edition mode to trace the line';
+        if (starts.size === 0) return 'Place a start circle in edition mode first';
+        if (isLineComplete(puzzle)) return 'The line reaches an end cap: its regions are ready for pieces';
+        return 'Click a start circle and move to trace (or use the arrow keys), click again to stop. Right-click or Escape clears the line';
+    };
+
     // Track current drag state for hover preview
     const { isDragging, dragItem, dragClientOffset } = useDragLayer((monitor) => ({
         isDragging: monitor.isDragging(),
@@ -219,48 +360,15 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
 
     // Calculate which cells would be occupied by the dragged piece
     const getHoverCells = (): Set<string> => {
-        if (!isDragging || !dragItem || !dragClientOffset || !containerRef.current || editionMode) {
+        const point = dragClientOffset && toGridPoint(dragClientOffset);
+        if (!isDragging || !dragItem || !point || editionMode || !isValidPattern(dragItem.pattern)) {
             return new Set();
         }
 
-        const rect = containerRef.current.getBoundingClientRect();
-        const padding = containerPadding;
-        const { pattern } = dragItem;
-
-        // Safety check: ensure pattern exists and is valid
-        if (!pattern || !Array.isArray(pattern) || pattern.length === 0 || !pattern[0]) {
-            return new Set();
-        }
-
-        const pointerOffset = dragItem.pointerOffset || { x: 0, y: 0 };
-
-        const patternCols = pattern[0].length;
-        const patternRows = pattern.length;
-        let blockIndexX = Math.floor(pointerOffset.x / (cellSize + gapSize));
-        let blockIndexY = Math.floor(pointerOffset.y / (cellSize + gapSize));
-        if (blockIndexX < 0) blockIndexX = 0;
-        if (blockIndexY < 0) blockIndexY = 0;
-        if (blockIndexX >= patternCols) blockIndexX = patternCols - 1;
-        if (blockIndexY >= patternRows) blockIndexY = patternRows - 1;
-
-        const xInGrid = dragClientOffset.x - rect.left - padding;
-        const yInGrid = dragClientOffset.y - rect.top - padding;
-        let col = Math.round(xInGrid / (cellSize + gapSize)) - blockIndexX;
-        let row = Math.round(yInGrid / (cellSize + gapSize)) - blockIndexY;
-
-        const hoverCells = new Set<string>();
-        for (let i = 0; i < pattern.length; i++) {
-            for (let j = 0; j < pattern[i].length; j++) {
-                if (pattern[i][j]) {
-                    const targetRow = row + i;
-                    const targetCol = col + j;
-                    if (targetRow >= 0 && targetRow < rows && targetCol >= 0 && targetCol < cols) {
-                        hoverCells.add(`${targetRow}-${targetCol}`);
-                    }
-                }
-            }
-        }
-        return hoverCells;
+        const [row, col] = getDropOrigin(layout, dragItem.pattern, point[0], point[1], dragItem.pointerOffset || { x: 0, y: 0 });
+        return new Set(getPatternCells(dragItem.pattern, row, col)
+            .filter(([r, c]) => isInBounds(puzzle, r, c))
+            .map(([r, c]) => `${r}-${c}`));
     };
 
     const hoverCells = getHoverCells();
@@ -269,35 +377,15 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
     const getEditionHoverCellId = (): string | null => {
         if (!editionMode || !containerRef.current) return null;
         // If dragging, compute from pointer; else, use mouse-hover state
-        if (isDragging && dragClientOffset) {
-            const rect = containerRef.current.getBoundingClientRect();
-            const xInGrid = dragClientOffset.x - rect.left - containerPadding;
-            const yInGrid = dragClientOffset.y - rect.top - containerPadding;
-            let colCell = Math.round(xInGrid / (cellSize + gapSize));
-            let rowCell = Math.round(yInGrid / (cellSize + gapSize));
-            if (colCell < 0 || colCell >= cols || rowCell < 0 || rowCell >= rows) return null;
-            return `${rowCell}-${colCell}`;
+        const point = dragClientOffset && toGridPoint(dragClientOffset);
+        if (isDragging && point) {
+            const [rowCell, colCell] = getNearestCell(layout, point[0], point[1]);
+            return isInBounds(puzzle, rowCell, colCell) ? `${rowCell}-${colCell}` : null;
         }
         return hoveredCell;
     };
     const editionHoverId = getEditionHoverCellId();
 
-    // Compute cell colors based on pieces
-    const getCellColor = (row: number, col: number): string | null => {
-        // Check pieces in reverse order so last placed is on top
-        for (let i = pieces.length - 1; i >= 0; i--) {
-            const piece = pieces[i];
-            for (let r = 0; r < piece.pattern.length; r++) {
-                for (let c = 0; c < piece.pattern[r].length; c++) {
-                    if (piece.pattern[r][c] && piece.row + r === row && piece.col + c === col) {
-                        return piece.color;
-                    }
-                }
-            }
-        }
-        return null;
-    };
-
     // register grid DOM rect and cellSize in context for drag preview
     useLayoutEffect(() => {
         const update = () => {
@@ -345,6 +433,7 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
 
     return (
         <div className="flex flex-col items-center gap-4">
+            <DifficultyMeter puzzle={puzzle} />
             <div
                 ref={(node) => {
                     containerRef.current = node;
@@ -372,12 +461,16 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                 >
                     {Array(rows).fill(null).map((_, rowIndex) =>
                         Array(cols).fill(null).map((_, colIndex) => {
-                            const cellColor = getCellColor(rowIndex, colIndex);
+                            const cellColor = getCellColor(shownPuzzle, rowIndex, colIndex);
                             const isHovered = hoverCells.has(`${rowIndex}-${colIndex}`);
                             const cellId = `${rowIndex}-${colIndex}`;
                             const isMarked = markedCells.has(cellId);
                             const isEditionHover = editionMode && editionHoverId === cellId;
-                            const mini = cellMinis.get(cellId);
+                            const isConflict = validation?.conflictCells.has(cellId) ?? false;
+                            // Symbols cancelled by an elimination mark fade out, like in the game
+                            const isCancelled = validation?.cancelledCells.has(cellId) ?? false;
+                            const symbol = cellSymbols.get(cellId);
+                            const mini = symbol?.kind === 'tetris' ? symbol : undefined;
                             const miniBlock = Math.floor(cellSize / 5);
                             return (
                                 <div
@@ -387,10 +480,23 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                         backgroundColor: cellColor || gridCellColor,
                                         border: `1px solid #1a202c`,
                                         borderRadius: 0,
-                                        boxShadow: isHovered || isEditionHover ? 'inset 0 0 0 2px rgba(96, 165, 250, 0.7), 0 0 8px rgba(96, 165, 250, 0.35)' : 'none',
+                                        boxShadow: isHovered || isEditionHover
+                                            ? 'inset 0 0 0 2px rgba(96, 165, 250, 0.7), 0 0 8px rgba(96, 165, 250, 0.35)'
+                                            : (isConflict || unsolvableCells.has(cellId) ? conflictShadow : hintCells.has(cellId) ? (hint?.kind === 'unsolvable' ? conflictShadow : hintShadow) : 'none'),
+                                        // Negative pieces are drawn as a hollow outline over whatever they cover
+                                        outline: negativeCells.has(cellId) ? `3px solid ${NEGATIVE_COLOR}` : 'none',
+                                        outlineOffset: '-3px',
                                         cursor: editionMode ? 'pointer' : 'default',
                                     }}
-                                    onClick={editionMode ? () => toggleMarkedCell(cellId) : undefined}
+                                    onClick={showHeatmap && mini
+                                        ? () => setHeatmapSource({ kind: 'clue', cellId })
+                                        : symbolTool ? () => toggleSymbol(cellId, symbolTool)
+                                            : editionMode ? () => onCommand({ type: 'toggleMarker', cellId }) : undefined}
+                                    onContextMenu={editionMode && mini ? (e) => {
+                                        e.preventDefault();
+                                        onCommand({ type: 'toggleClueRotatable', cellId });
+                                    } : undefined}
+                                    title={isCancelled ? 'Cancelled by an elimination mark' : editionMode && mini ? `${mini.rotatable ? 'Tilted: any rotation' : 'Upright: this rotation only'} (right-click to switch)` : undefined}
                                     onMouseEnter={editionMode ? () => setHoveredCell(cellId) : undefined}
                                     onMouseLeave={editionMode ? () => setHoveredCell(prev => (prev === cellId ? null : prev)) : undefined}
                                 >
@@ -400,9 +506,10 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                             style={{
                                                 top: '50%',
                                                 left: '50%',
-                                                transform: 'translate(-50%, -50%)',
+                                                transform: `translate(-50%, -50%)${mini.rotatable ? ' rotate(-20deg)' : ''}`,
                                                 width: `${mini.pattern[0].length * miniBlock}px`,
                                                 height: `${mini.pattern.length * miniBlock}px`,
+                                                opacity: isCancelled ? 0.3 : 1,
                                                 pointerEvents: 'none',
                                             }}
                                         >
@@ -416,7 +523,9 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                                             top: `${i * miniBlock}px`,
                                                             width: `${miniBlock - 1}px`,
                                                             height: `${miniBlock - 1}px`,
-                                                            backgroundColor: mini.color,
+                                                            backgroundColor: mini.negative ? 'transparent' : mini.color,
+                                                            border: mini.negative ? `1px solid ${NEGATIVE_COLOR}` : undefined,
+                                                            boxSizing: 'border-box',
                                                             borderRadius: '1px',
                                                         }}
                                                     />
@@ -424,6 +533,11 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                             ))}
                                         </div>
                                     )}
+                                    {symbol && symbol.kind !== 'tetris' && (
+                                        <div className="absolute inset-0 flex items-center justify-center pointer-events-none" style={{ opacity: isCancelled ? 0.3 : 1 }}>
+                                            <CellSymbolIcon symbol={symbol} size={Math.floor(cellSize * 0.7)} />
+                                        </div>
+                                    )}
                                     {isMarked && (
                                         <div
                                             className="absolute z-30"
@@ -472,7 +586,7 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                             width: `${cellSize}px`,
                                             height: `${thickness}px`,
                                             backgroundColor: isWall
-                                                ? wallColor
+                                                ? (validation?.conflictWalls.has(wallId) ? conflictColor : wallColor)
                                                 : (hoveredEdgeId === wallId ? 'rgba(96, 165, 250, 0.35)' : 'transparent'),
                                             boxShadow: hoveredEdgeId === wallId
                                                 ? 'inset 0 0 0 2px rgba(96, 165, 250, 0.7), 0 0 8px rgba(96, 165, 250, 0.35)'
@@ -480,7 +594,7 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                         }}
                                         onMouseEnter={() => setHoveredEdgeId(wallId)}
                                         onMouseLeave={() => setHoveredEdgeId(prev => (prev === wallId ? null : prev))}
-                                        onClick={() => toggleWall(wallId)}
+                                        onClick={() => toggleEdge(wallId)}
                                     />
                                 );
                             })
@@ -510,7 +624,7 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                             width: `${thickness}px`,
                                             height: `${cellSize}px`,
                                             backgroundColor: isWall
-                                                ? wallColor
+                                                ? (validation?.conflictWalls.has(wallId) ? conflictColor : wallColor)
                                                 : (hoveredEdgeId === wallId ? 'rgba(96, 165, 250, 0.35)' : 'transparent'),
                                             boxShadow: hoveredEdgeId === wallId
                                                 ? 'inset 0 0 0 2px rgba(96, 165, 250, 0.7), 0 0 8px rgba(96, 165, 250, 0.35)'
@@ -518,7 +632,7 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                         }}
                                         onMouseEnter={() => setHoveredEdgeId(wallId)}
                                         onMouseLeave={() => setHoveredEdgeId(prev => (prev === wallId ? null : prev))}
-                                        onClick={() => toggleWall(wallId)}
+                                        onClick={() => toggleEdge(wallId)}
                                     />
                                 );
                             })
@@ -551,7 +665,7 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                             top: `${top}px`,
                                             width: `${cellSize}px`,
                                             height: `${wallWidth}px`,
-                                            backgroundColor: wallColor,
+                                            backgroundColor: validation?.conflictWalls.has(wallId) ? conflictColor : wallColor,
                                         }}
                                     />
                                 );
@@ -580,7 +694,7 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                                             top: `${top}px`,
                                             width: `${wallWidth}px`,
                                             height: `${cellSize}px`,
-                                            backgroundColor: wallColor,
+                                            backgroundColor: validation?.conflictWalls.has(wallId) ? conflictColor : wallColor,
                                         }}
                                     />
                                 );
@@ -589,16 +703,88 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                     </>
                 )}
 
-                {/* Invisible draggable overlays for each piece */}
-                {!editionMode && pieces.map((piece) => (
+                {/* Region overlay: a tint per region and an area badge on its first cell */}
+                {regionSummaries.map((region, index) => {
+                    const tint = `hsla(${(index * 137.5) % 360}, 75%, 60%, 0.3)`;
+                    const [badgeRow, badgeCol] = parseCellId(region.cells[0]);
+                    return (
+                        <div key={region.cells[0]} className="pointer-events-none">
+                            {region.cells.map((cellId) => {
+                                const [row, col] = parseCellId(cellId);
+                                return (
+                                    <div
+                                        key={cellId}
+                                        className="absolute z-[5]"
+                                        style={{
+                                            left: `${containerPadding + col * (cellSize + gapSize)}px`,
+                                            top: `${containerPadding + row * (cellSize + gapSize)}px`,
+                                            width: `${cellSize}px`,
+                                            height: `${cellSize}px`,
+                                            backgroundColor: tint,
+                                        }}
+                                    />
+                                );
+                            })}
+                            <div
+                                className={`absolute z-40 px-1 rounded text-[10px] font-semibold leading-4 tabular-nums ${region.matches ? 'bg-white text-gray-800' : 'bg-red-600 text-white'}`}
+                                style={{
+                                    left: `${containerPadding + badgeCol * (cellSize + gapSize) + 1}px`,
+                                    top: `${containerPadding + badgeRow * (cellSize + gapSize) + 1}px`,
+                                }}
+                                title={`Region of ${region.cells.length} cells, clues covering ${region.clueArea}`}
+                            >
+                                {region.hasClues ? `${region.cells.length}/${region.clueArea}` : region.cells.length}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                {/* Heatmap overlay: cells shaded by how many legal placements cover them */}
+                {heatmap && [...heatmap.counts].map(([cellId, count]) => {
+                    const [row, col] = parseCellId(cellId);
+                    const forced = heatmap.forced.has(cellId);
+                    return (
+                        <div
+                            key={cellId}
+                            className="absolute z-[6] pointer-events-none flex items-end justify-end p-0.5 text-[10px] font-semibold leading-none text-white tabular-nums"
+                            style={{
+                                left: `${containerPadding + col * (cellSize + gapSize)}px`,
+                                top: `${containerPadding + row * (cellSize + gapSize)}px`,
+                                width: `${cellSize}px`,
+                                height: `${cellSize}px`,
+                                backgroundColor: `rgba(249, 115, 22, ${0.15 + 0.65 * count / heatmapMax})`,
+                                outline: forced ? '2px dashed #fde047' : 'none',
+                                outlineOffset: '-4px',
+                            }}
+                        >
+                            {forced ? `${count}!` : count}
+                        </div>
+                    );
+                })}
+
+                <LineLayer
+                    puzzle={puzzle}
+                    tool={activeLineTool}
+                    onCommand={onCommand}
+                    cellSize={cellSize}
+                    gapSize={gapSize}
+                    containerPadding={containerPadding}
+                    lineWidth={wallWidth + 1}
+                    missedDots={validation?.conflictDots}
+                />
+
+                {/* Invisible draggable overlays for each piece; pieces are still dropped in play mode */}
+                {!editionMode && !activeLineTool && !previewPieces && pieces.map((piece) => (
                     <PieceOverlay
                         key={piece.id}
                         piece={piece}
                         cellSize={cellSize}
                         gapSize={gapSize}
                         containerPadding={containerPadding}
-                        onRemove={() => removePiece(piece.id)}
-                        onRotate={() => rotatePiece(piece.id)}
+                        pinned={pinnedIds.has(piece.id)}
+                        onRemove={() => onCommand({ type: 'removePiece', id: piece.id })}
+                        onRotate={() => onCommand({ type: 'rotatePiece', id: piece.id })}
+                        onTogglePinned={() => togglePinned(piece.id)}
                     />
                 ))}
             </div>
@@ -612,12 +798,206 @@ export const Grid: React.FC<GridProps> = ({ rows, cols, editionMode, onToggleEdi
                 >
                     {editionMode ? 'Edition Mode ON' : 'Edition Mode OFF'}
                 </button>
+                {editionMode && (
+                    <div className="flex flex-wrap gap-2 max-w-md" role="group" aria-label="Edition tool">
+                        {EDITION_TOOLS.map(({ tool, label }) => (
+                            <button
+                                key={tool}
+                                onClick={() => setEditionTool(tool)}
+                                className={`flex-1 px-3 py-1 text-sm rounded-lg transition-colors ${editionTool === tool
+                                    ? 'bg-purple-600 text-white'
+                                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                                    }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {symbolTool && symbolTool !== 'elimination' && (
+                    <div className="flex gap-2" role="group" aria-label="Symbol color">
+                        {SYMBOL_COLORS.map(color => (
+                            <button
+                                key={color}
+                                onClick={() => setSymbolColor(color)}
+                                title={color}
+                                aria-pressed={symbolColor === color}
+                                className={`p-0.5 rounded-lg border-2 transition-colors ${symbolColor === color ? 'border-purple-600' : 'border-transparent hover:border-gray-300'}`}
+                                style={{ backgroundColor: gridCellColor }}
+                            >
+                                <CellSymbolIcon symbol={{ kind: symbolTool, color }} size={24} />
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <button
+                    onClick={() => setShowRegions(!showRegions)}
+                    className={`px-4 py-2 rounded-lg transition-colors ${showRegions
+                        ? 'bg-teal-600 text-white shadow-lg hover:bg-teal-700'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                        }`}
+                >
+                    {showRegions ? 'Regions ON' : 'Regions OFF'}
+                </button>
+                <button
+                    onClick={() => setShowHeatmap(!showHeatmap)}
+                    className={`px-4 py-2 rounded-lg transition-colors ${showHeatmap
+                        ? 'bg-orange-500 text-white shadow-lg hover:bg-orange-600'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                        }`}
+                >
+                    {showHeatmap ? 'Heatmap ON' : 'Heatmap OFF'}
+                </button>
                 <button
-                    onClick={clearGrid}
-                    className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                    onClick={() => setPlayMode(!playMode)}
+                    className={`px-4 py-2 rounded-lg transition-colors ${playMode
+                        ? 'bg-yellow-500 text-white shadow-lg hover:bg-yellow-600'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                        }`}
                 >
-                    Clear Grid
+                    {playMode ? 'Play Mode ON' : 'Play Mode OFF'}
                 </button>
+                {playMode && (
+                    <div className="flex items-center gap-2 max-w-md">
+                        <p className="flex-1 text-xs text-gray-600">{getPlayModeMessage()}</p>
+                        <button
+                            onClick={() => onCommand({ type: 'setLine', line: [] })}
+                            disabled={line.length === 0}
+                            className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                        >
+                            Clear line
+                        </button>
+                    </div>
+                )}
+                {showHeatmap && (
+                    <div className="space-y-1">
+                        <select
+                            aria-label="Heatmap shape"
+                            value={heatmapSource ? `${heatmapSource.kind}:${heatmapSource.kind === 'clue' ? heatmapSource.cellId : heatmapSource.id}` : ''}
+                            onChange={(e) => {
+                                const [, kind, value] = /^(clue|shape):(.*)$/.exec(e.target.value) ?? [];
+                                setHeatmapSource(kind === 'clue' ? { kind, cellId: value } : kind === 'shape' ? { kind, id: value } : null);
+                            }}
+                            className="w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                        >
+                            <option value="">Pick a shape, or click a clue</option>
+                            {[...cellMinis.keys()].map(cellId => {
+                                const [row, col] = parseCellId(cellId);
+                                return <option key={cellId} value={`clue:${cellId}`}>Clue at row {row + 1}, column {col + 1}</option>;
+                            })}
+                            {paletteShapes.map(shape => <option key={shape.id} value={`shape:${shape.id}`}>Shape {shape.id}</option>)}
+                        </select>
+                        {heatmap && (
+                            <p className="text-xs text-gray-600 max-w-xs">
+                                {heatmap.placements === 0
+                                    ? 'No legal placement: this shape fits nowhere'
+                                    : `${heatmap.placements} legal placement${heatmap.placements === 1 ? '' : 's'}, ${heatmap.forced.size} forced cell${heatmap.forced.size === 1 ? '' : 's'} (marked !)`}
+                            </p>
+                        )}
+                    </div>
+                )}
+                <div className="flex flex-wrap gap-3 max-w-md">
+                    <button
+                        onClick={checkGrid}
+                        className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                    >
+                        Check
+                    </button>
+                    <button
+                        onClick={showHint}
+                        disabled={solver.status.running}
+                        title={hint?.kind === 'placement' ? 'Place the highlighted piece' : 'Find the next forced placement. Squares, stars and elimination marks are ignored'}
+                        className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                    >
+                        {hint?.kind === 'placement' ? 'Place' : 'Hint'}
+                    </button>
+                    <button
+                        onClick={solveGrid}
+                        disabled={solver.status.running}
+                        title="Place pieces for the tetris clues. Squares, stars and elimination marks are ignored"
+                        className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                    >
+                        Solve
+                    </button>
+                    <button
+                        onClick={completeGrid}
+                        disabled={solver.status.running}
+                        title={`Complete around the ${pinnedIds.size > 0 ? 'pinned' : 'placed'} pieces. Squares, stars and elimination marks are ignored`}
+                        className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                    >
+                        Complete
+                    </button>
+                    <button
+                        onClick={findLine}
+                        disabled={solver.status.running}
+                        title="Find a line whose regions satisfy the tetris clues, squares, stars and dots"
+                        className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                    >
+                        Find Line
+                    </button>
+                    <button
+                        onClick={clearGrid}
+                        className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                    >
+                        Clear Grid
+                    </button>
+                </div>
+                {solver.status.running && (
+                    <div className="flex items-center gap-3">
+                        <Progress value={solver.status.progress * 100} className="flex-1" />
+                        <span className="text-xs text-gray-600 tabular-nums">
+                            {solver.status.nodes.toLocaleString()} nodes
+                        </span>
+                        <button
+                            onClick={solver.cancel}
+                            className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                )}
+                {solveMessage && (
+                    <p className="text-sm text-red-600 text-center max-w-xs">{solveMessage}</p>
+                )}
+                {unsolvable && (
+                    <div className="text-sm text-red-600 max-w-xs space-y-1">
+                        <p className="font-medium">No solution:</p>
+                        <ul className="space-y-1">
+                            {unsolvable.map((reason, index) => (
+                                <li key={index}>• {reason.message}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {deadEnd && (
+                    <p className="text-sm text-red-600 text-center max-w-xs">{deadEnd.message}</p>
+                )}
+                {hint && (
+                    <p className={`text-sm text-center max-w-xs ${hint.kind === 'unsolvable' ? 'text-red-600' : 'text-amber-700'}`}>
+                        {hint.kind === 'unsolvable' ? `Already unsolvable: ${hint.message}` : hint.message}
+                        {hint.kind === 'placement' && ' (press "Place" to put it on the grid)'}
+                        {marksIgnored && '. Elimination marks were ignored'}
+                    </p>
+                )}
+                {editionMode && (
+                    <SolutionCounter
+                        puzzle={puzzle}
+                        onPreview={setPreviewPieces}
+                        onKeep={(solution) => onCommand({ type: 'setPieces', pieces: solution })}
+                    />
+                )}
+                {validation && (validation.valid ? (
+                    <p className="text-sm text-green-700 text-center max-w-xs">
+                        Valid solution: every region is exactly covered by its clues
+                        {validation.cancelledCells.size > 0 && `, once elimination marks cancel the ${validation.cancelledCells.size === 1 ? 'faded symbol' : `${validation.cancelledCells.size} faded symbols`}`}
+                    </p>
+                ) : (
+                    <ul className="text-sm text-red-600 max-w-xs space-y-1">
+                        {validation.issues.map((issue, index) => (
+                            <li key={index}>• {issue.message}</li>
+                        ))}
+                    </ul>
+                ))}
             </div>
         </div>
     );
@@ -628,11 +1008,14 @@ interface PieceOverlayProps {
     cellSize: number;
     gapSize: number;
     containerPadding: number;
+    // Kept in place by "Complete"
+    pinned: boolean;
     onRemove: () => void;
     onRotate: () => void;
+    onTogglePinned: () => void;
 }
 
-const PieceOverlay: React.FC<PieceOverlayProps> = ({ piece, cellSize, gapSize, containerPadding, onRemove, onRotate }) => {
+const PieceOverlay: React.FC<PieceOverlayProps> = ({ piece, cellSize, gapSize, containerPadding, pinned, onRemove, onRotate, onTogglePinned }) => {
     const dragStartOffsetRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
     const [isHovered, setIsHovered] = useState(false);
 
@@ -647,7 +1030,7 @@ const PieceOverlay: React.FC<PieceOverlayProps> = ({ piece, cellSize, gapSize, c
                     y: initialOffset.y - sourceOffset.y
                 };
             }
-            return { type: piece.type, pattern: piece.pattern, pieceId: piece.id, color: piece.color, pointerOffset: dragStartOffsetRef.current };
+            return { type: piece.type, pattern: piece.pattern, pieceId: piece.id, color: piece.color, negative: piece.negative, pointerOffset: dragStartOffsetRef.current };
         },
         end: (item, monitor) => {
             if (!monitor.didDrop() && onRemove) {
@@ -657,7 +1040,7 @@ const PieceOverlay: React.FC<PieceOverlayProps> = ({ piece, cellSize, gapSize, c
         collect: (monitor) => ({
             isDragging: !!monitor.isDragging(),
         }),
-    }), [piece.pattern, piece.type, piece.id, piece.color, onRemove]);
+    }), [piece.pattern, piece.type, piece.id, piece.color, piece.negative, onRemove]);
 
     const setDragRef = useCallback((node: HTMLDivElement | null) => {
         drag(node);
@@ -692,6 +1075,11 @@ const PieceOverlay: React.FC<PieceOverlayProps> = ({ piece, cellSize, gapSize, c
                         <div
                             key={blockId}
                             onClick={handleClick}
+                            onContextMenu={(e) => {
+                                e.preventDefault();
+                                onTogglePinned();
+                            }}
+                            title={pinned ? 'Pinned: kept by "Complete" (right-click to unpin)' : 'Right-click to pin'}
                             className="absolute cursor-move"
                             style={{
                                 left: `${j * (cellSize + gapSize)}px`,
@@ -699,7 +1087,9 @@ const PieceOverlay: React.FC<PieceOverlayProps> = ({ piece, cellSize, gapSize, c
                                 width: `${cellSize - gapSize}px`,
                                 height: `${cellSize - gapSize}px`,
                                 opacity: isDragging ? 0.5 : 1,
-                                boxShadow: (isHovered && !isDragging) ? 'inset 0 0 0 2px rgba(96, 165, 250, 0.8), 0 0 8px rgba(96, 165, 250, 0.6)' : 'none',
+                                boxShadow: (isHovered && !isDragging)
+                                    ? 'inset 0 0 0 2px rgba(96, 165, 250, 0.8), 0 0 8px rgba(96, 165, 250, 0.6)'
+                                    : (pinned ? 'inset 0 0 0 2px rgba(255, 255, 255, 0.9)' : 'none'),
                                 borderRadius: 0,
                                 transition: 'box-shadow 0.2s ease',
                                 pointerEvents: 'auto',
@@ -0,0 +1,290 @@
+import { useEffect, useRef, useState } from 'react';
+import { PuzzleCommand } from '../puzzle/commands';
+import {
+    Vertex, getEdgeVertices, getStepsTowards, isEdgeDot, isEdgeInBounds, isLineComplete, isVertexInBounds, parseVertexId,
+    stepLine, toVertexId,
+} from '../puzzle/line';
+import { DotId, Puzzle, VertexId } from '../puzzle/types';
+
+
+export type LineTool = 'draw' | 'start' | 'end' | 'dot';
+
+interface LineLayerProps {
+    puzzle: Puzzle;
+    // Play mode tool, or null outside play mode
+    tool: LineTool | null;
+    onCommand: (command: PuzzleCommand) => void;
+    cellSize: number;
+    gapSize: number;
+    containerPadding: number;
+    lineWidth: number;
+    // Dots a check found the line missing
+    missedDots?: Set<DotId>;
+}
+
+const lineColor = '#fff7d6';
+const lineGlow = 'drop-shadow(0 0 4px rgba(253, 224, 71, 0.9))';
+const pointColor = 'white';
+const brokenEdgeColor = '#718096';
+const dotColor = 'black';
+const missedDotColor = '#ef4444';
+
+const ARROW_STEPS: Record<string, Vertex> = {
+    ArrowUp: [-1, 0],
+    ArrowDown: [1, 0],
+    ArrowLeft: [0, -1],
+    ArrowRight: [0, 1],
+};
+
+
+// Draws the line, its start circles and end caps, and lets the player trace it in play mode
+export const LineLayer: React.FC<LineLayerProps> = ({ puzzle, tool, onCommand, cellSize, gapSize, containerPadding, lineWidth, missedDots }) => {
+    const { rows, cols, starts, ends, brokenEdges, dots, line } = puzzle;
+    const [tracing, setTracing] = useState(false);
+    const svgRef = useRef<SVGSVGElement | null>(null);
+    // Several steps may be taken before the next render
+    const lineRef = useRef(line);
+    lineRef.current = line;
+
+    const gridInnerWidth = cols * cellSize + (cols - 1) * gapSize;
+    const gridInnerHeight = rows * cellSize + (rows - 1) * gapSize;
+
+    // Vertices sit in the middle of the gaps between cells, and on the outer edge of the grid
+    const toOffset = (index: number, count: number, inner: number): number =>
+        index === 0 ? containerPadding
+            : index === count ? containerPadding + inner
+                : containerPadding + index * (cellSize + gapSize) - gapSize / 2;
+    const toPoint = ([row, col]: Vertex): [number, number] =>
+        [toOffset(col, cols, gridInnerWidth), toOffset(row, rows, gridInnerHeight)];
+
+    // Dots sit on their vertex, or halfway along their edge
+    const getDotPoint = (dotId: DotId): [number, number] => {
+        if (!isEdgeDot(dotId)) return toPoint(parseVertexId(dotId));
+        const [[x1, y1], [x2, y2]] = getEdgeVertices(dotId).map(toPoint);
+        return [(x1 + x2) / 2, (y1 + y2) / 2];
+    };
+
+    // Pointer position in vertex units: whole numbers fall on vertices
+    const getLatticePoint = (e: React.MouseEvent): Vertex | null => {
+        if (!svgRef.current) return null;
+        const rect = svgRef.current.getBoundingClientRect();
+        const toLattice = (offset: number) => (offset - containerPadding + gapSize / 2) / (cellSize + gapSize);
+        return [toLattice(e.clientY - rect.top), toLattice(e.clientX - rect.left)];
+    };
+
+    const getNearestVertex = (e: React.MouseEvent): Vertex | null => {
+        const point = getLatticePoint(e);
+        if (!point) return null;
+        return [Math.min(rows, Math.max(0, Math.round(point[0]))), Math.min(cols, Math.max(0, Math.round(point[1])))];
+    };
+
+    // The vertex under the pointer, or else the edge it is closest to
+    const getNearestDot = (e: React.MouseEvent): DotId | null => {
+        const point = getLatticePoint(e);
+        if (!point) return null;
+        const [y, x] = point;
+        const row = Math.round(y);
+        const col = Math.round(x);
+        if (Math.abs(y - row) < 0.25 && Math.abs(x - col) < 0.25) {
+            return isVertexInBounds(rows, cols, [row, col]) ? toVertexId([row, col]) : null;
+        }
+        const edgeId = Math.abs(y - row) < Math.abs(x - col) ? `h-${row}-${Math.floor(x)}` : `v-${Math.floor(y)}-${col}`;
+        return isEdgeInBounds(rows, cols, edgeId) ? edgeId : null;
+    };
+
+    const updateLine = (next: VertexId[]) => {
+        lineRef.current = next;
+        onCommand({ type: 'setLine', line: next });
+    };
+
+    const clearLine = () => {
+        setTracing(false);
+        if (lineRef.current.length > 0) updateLine([]);
+    };
+
+    // Walks the head towards the target one edge at a time, stopping where the line is blocked
+    const traceTowards = (target: Vertex) => {
+        let current = lineRef.current;
+        for (let step = 0; step < rows + cols + 2 && current.length > 0; step++) {
+            const head = parseVertexId(current[current.length - 1]);
+            const next = getStepsTowards(head, target)
+                .map(vertex => stepLine(puzzle, current, vertex))
+                .find(candidate => candidate !== null);
+            if (!next) break;
+            current = next;
+        }
+        if (current !== lineRef.current) updateLine(current);
+    };
+
+    // Leaving play mode stops tracing
+    useEffect(() => {
+        if (tool !== 'draw') setTracing(false);
+    }, [tool]);
+
+    // Arrow keys move the head of the line, starting from the first start circle
+    useEffect(() => {
+        if (tool !== 'draw') return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+            if (e.key === 'Escape') {
+                clearLine();
+                return;
+            }
+            const step = ARROW_STEPS[e.key];
+            if (!step) return;
+            e.preventDefault();
+
+            let current = lineRef.current;
+            if (current.length === 0) {
+                const [first] = starts;
+                if (!first) return;
+                current = [first];
+            }
+            const [row, col] = parseVertexId(current[current.length - 1]);
+            const next = stepLine(puzzle, current, [row + step[0], col + step[1]]);
+            if (next || current !== lineRef.current) updateLine(next ?? current);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [tool, puzzle]);
+
+    const handleClick = (e: React.MouseEvent) => {
+        if (tool === 'dot') {
+            const dotId = getNearestDot(e);
+            if (dotId) onCommand({ type: 'toggleDot', dotId });
+            return;
+        }
+        const vertex = getNearestVertex(e);
+        if (!vertex || !isVertexInBounds(rows, cols, vertex)) return;
+        const vertexId = toVertexId(vertex);
+        if (tool === 'start') {
+            onCommand({ type: 'toggleStart', vertexId });
+        }
+        else if (tool === 'end') {
+            onCommand({ type: 'toggleEnd', vertexId });
+        }
+        else if (tracing) {
+            // A second click leaves the line where it is
+            setTracing(false);
+        }
+        else if (starts.has(vertexId)) {
+            setTracing(true);
+            updateLine([vertexId]);
+        }
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!tracing) return;
+        const vertex = getNearestVertex(e);
+        if (vertex) traceTowards(vertex);
+    };
+
+    const complete = isLineComplete(puzzle);
+    const points = line.map(vertexId => toPoint(parseVertexId(vertexId)));
+    const capLength = cellSize / 3;
+
+    return (
+        <svg
+            ref={svgRef}
+            className="absolute inset-0 z-[25]"
+            width="100%"
+            height="100%"
+            overflow="visible"
+            style={{
+                pointerEvents: tool ? 'auto' : 'none',
+                cursor: tool ? 'crosshair' : 'default',
+            }}
+            onClick={tool ? handleClick : undefined}
+            onMouseMove={tool ? handleMouseMove : undefined}
+            onContextMenu={tool === 'draw' ? (e) => {
+                e.preventDefault();
+                clearLine();
+            } : undefined}
+        >
+            {/* Broken edges: the edge drawn with a gap in its middle */}
+            {[...brokenEdges].map(edgeId => {
+                const [[x1, y1], [x2, y2]] = getEdgeVertices(edgeId).map(toPoint);
+                const along = (t: number): [number, number] => [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t];
+                return (
+                    <g key={`broken-${edgeId}`} stroke={brokenEdgeColor} strokeWidth={lineWidth - 1}>
+                        {[[0, 0.35], [0.65, 1]].map(([a, b]) => {
+                            const [ax, ay] = along(a);
+                            const [bx, by] = along(b);
+                            return <line key={a} x1={ax} y1={ay} x2={bx} y2={by} />;
+                        })}
+                    </g>
+                );
+            })}
+
+            {/* End caps: a short stub leading out of the grid */}
+            {[...ends].map(vertexId => {
+                const [row, col] = parseVertexId(vertexId);
+                const [x, y] = toPoint([row, col]);
+                const [dx, dy] = row === 0 ? [0, -1] : row === rows ? [0, 1] : col === 0 ? [-1, 0] : [1, 0];
+                const reached = line[line.length - 1] === vertexId;
+                return (
+                    <line
+                        key={`end-${vertexId}`}
+                        x1={x}
+                        y1={y}
+                        x2={x + dx * capLength}
+                        y2={y + dy * capLength}
+                        stroke={reached ? lineColor : pointColor}
+                        strokeWidth={lineWidth}
+                        strokeLinecap="round"
+                        style={{ filter: reached && complete ? lineGlow : undefined }}
+                    />
+                );
+            })}
+
+            {/* Start circles */}
+            {[...starts].map(vertexId => {
+                const [x, y] = toPoint(parseVertexId(vertexId));
+                const used = line[0] === vertexId;
+                return (
+                    <circle
+                        key={`start-${vertexId}`}
+                        cx={x}
+                        cy={y}
+                        r={lineWidth * 1.3}
+                        fill={used ? lineColor : pointColor}
+                        style={{ filter: used ? lineGlow : undefined }}
+                    />
+                );
+            })}
+
+            {/* The traced line, glowing once it reaches an end cap */}
+            {points.length > 1 && (
+                <polyline
+                    points={points.map(([x, y]) => `${x},${y}`).join(' ')}
+                    fill="none"
+                    stroke={lineColor}
+                    strokeWidth={lineWidth}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    style={{ filter: lineGlow, opacity: complete || tracing ? 1 : 0.85 }}
+                />
+            )}
+
+            {/* Hexagon dots, on top of the line like in the game */}
+            {[...dots].map(dotId => {
+                const [x, y] = getDotPoint(dotId);
+                const radius = lineWidth * 0.8;
+                const corners = Array.from({ length: 6 }, (_, i) => {
+                    const angle = Math.PI / 3 * i;
+                    return `${x + radius * Math.cos(angle)},${y + radius * Math.sin(angle)}`;
+                });
+                return (
+                    <polygon
+                        key={`dot-${dotId}`}
+                        points={corners.join(' ')}
+                        fill={missedDots?.has(dotId) ? missedDotColor : dotColor}
+                        stroke="#a0aec0"
+                        strokeWidth={1}
+                    />
+                );
+            })}
+        </svg>
+    );
+};
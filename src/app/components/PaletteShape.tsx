@@ -1,32 +1,20 @@
 import { useState } from 'react';
 import { TetrisShape } from './TetrisShape';
+import { rotatePattern } from '../puzzle/geometry';
 
 
 interface PaletteShapeProps {
     type: string;
     color: string;
     initialPattern: number[][];
+    negative?: boolean;
     cellSize?: number;
 }
 
 
-export const PaletteShape = ({ type, color, initialPattern, cellSize }: PaletteShapeProps) => {
+export const PaletteShape = ({ type, color, initialPattern, negative, cellSize }: PaletteShapeProps) => {
     const [pattern, setPattern] = useState(initialPattern);
 
-    const rotatePattern = (pattern: number[][]): number[][] => {
-        const rows = pattern.length;
-        const cols = pattern[0].length;
-        const rotated: number[][] = Array(cols).fill(null).map(() => Array(rows).fill(0));
-
-        for (let i = 0; i < rows; i++) {
-            for (let j = 0; j < cols; j++) {
-                rotated[j][rows - 1 - i] = pattern[i][j];
-            }
-        }
-
-        return rotated;
-    };
-
     const handleRotate = () => {
         setPattern(prev => rotatePattern(prev));
     };
@@ -36,6 +24,7 @@ export const PaletteShape = ({ type, color, initialPattern, cellSize }: PaletteS
             type={type}
             color={color}
             pattern={pattern}
+            negative={negative}
             onRotate={handleRotate}
             cellSize={cellSize}
         />
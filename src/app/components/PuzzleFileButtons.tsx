@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import {
+    PUZZLE_FILE_EXTENSION, PuzzleFile, PuzzleFileError, PuzzleFileShape, createPuzzleFile, parsePuzzleFileText,
+} from '../puzzle/format';
+import { Puzzle } from '../puzzle/types';
+
+
+interface PuzzleFileButtonsProps {
+    puzzle: Puzzle;
+    customShapes: PuzzleFileShape[];
+    onImport: (file: PuzzleFile) => void;
+}
+
+
+// Export the current puzzle to a .witness.json file, or import one
+export const PuzzleFileButtons: React.FC<PuzzleFileButtonsProps> = ({ puzzle, customShapes, onImport }) => {
+    const inputRef = useRef<HTMLInputElement | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const handleExport = () => {
+        const file = createPuzzleFile(puzzle, customShapes, { includePieces: true });
+        const blob = new Blob([JSON.stringify(file, null, 4)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `puzzle-${puzzle.rows}x${puzzle.cols}${PUZZLE_FILE_EXTENSION}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        // Reset so picking the same file again still triggers a change
+        e.target.value = '';
+        if (!selected) return;
+
+        try {
+            onImport(parsePuzzleFileText(await selected.text()));
+            setImportError(null);
+        } catch (err) {
+            if (!(err instanceof PuzzleFileError)) {
+                console.error('Failed to import puzzle:', err);
+            }
+            setImportError(`Could not import ${selected.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+        }
+    };
+
+    return (
+        <>
+            <button
+                onClick={handleExport}
+                className="px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+                Export
+            </button>
+            <button
+                onClick={() => inputRef.current?.click()}
+                className="px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+                Import
+            </button>
+            <input
+                ref={inputRef}
+                type="file"
+                accept={`${PUZZLE_FILE_EXTENSION},.json,application/json`}
+                onChange={handleImport}
+                className="hidden"
+            />
+            {importError && (
+                <p className="basis-full text-sm text-red-600 text-center">{importError}</p>
+            )}
+        </>
+    );
+};
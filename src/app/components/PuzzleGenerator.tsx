@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Progress } from './ui/progress';
+import { PIECES, getEnabledPieces } from './TetrisShape';
+import { CustomPiece } from './ShapeCreator';
+import { GeneratorDifficulty, getGeneratorDifficulties } from '../generator/generate';
+import { createRandomSeed } from '../generator/random';
+import { Puzzle } from '../puzzle/types';
+import { useSolver } from '../solver/useSolver';
+
+
+interface PuzzleGeneratorProps {
+    puzzle: Puzzle;
+    customShapes: CustomPiece[];
+    onGenerate: (puzzle: Puzzle) => void;
+}
+
+export const PuzzleGenerator: React.FC<PuzzleGeneratorProps> = ({ puzzle, customShapes, onGenerate }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [rows, setRows] = useState(puzzle.rows);
+    const [cols, setCols] = useState(puzzle.cols);
+    const [seed, setSeed] = useState(createRandomSeed);
+    const [difficulty, setDifficulty] = useState<GeneratorDifficulty>('medium');
+    // Shapes left out of generation, by preset or custom shape id
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [message, setMessage] = useState<string | null>(null);
+    const solver = useSolver();
+
+    const shapes = [
+        ...getEnabledPieces().map(id => ({ id, ...PIECES[id] })),
+        ...customShapes,
+    ];
+    const allowedShapes = shapes.filter(shape => !excluded.has(shape.id));
+    // The chosen difficulty comes back if the grid grows again
+    const difficulties = getGeneratorDifficulties(rows, cols);
+    const targetDifficulty = difficulties.includes(difficulty) ? difficulty : difficulties[difficulties.length - 1];
+
+    const handleOpenChange = (open: boolean) => {
+        if (open) {
+            setRows(puzzle.rows);
+            setCols(puzzle.cols);
+            setMessage(null);
+        }
+        else {
+            solver.cancel();
+        }
+        setIsOpen(open);
+    };
+
+    const toggleShape = (id: string) => {
+        setExcluded(prev => {
+            const next = new Set(prev);
+            if (!next.delete(id)) next.add(id);
+            return next;
+        });
+    };
+
+    // Generation and the rating that calibrates it run in the solver worker
+    const handleGenerate = () => {
+        setMessage(null);
+        const shapes = allowedShapes.map(({ pattern, color }) => ({ pattern, color }));
+        solver.start({ kind: 'generate', options: { rows, cols, shapes, difficulty: targetDifficulty, seed: seed.trim() } }, {
+            onSolution: (solution) => {
+                if (solution.kind !== 'generate') return;
+                const { puzzle: generated, rating, matched, attempts } = solution.result;
+                onGenerate(generated);
+                // Left open so another seed can be tried
+                if (!matched) {
+                    setMessage(`No ${targetDifficulty} puzzle in ${attempts} tries: kept the closest, rated ${rating.label} (${rating.score})`);
+                    return;
+                }
+                setIsOpen(false);
+            },
+            onDone: (outcome, _failure, error) => {
+                if (outcome === 'error') setMessage(`Generation failed: ${error}`);
+            },
+        });
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <button className="px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors">
+                    Generate
+                </button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Generate a puzzle</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div className="flex flex-col items-start">
+                            <label htmlFor="generator-rows" className="text-sm font-medium text-gray-700 mb-1">Rows</label>
+                            <input
+                                id="generator-rows"
+                                type="number"
+                                min={1}
+                                max={10}
+                                value={rows}
+                                onChange={(e) => setRows(Math.max(1, Math.min(10, parseInt(e.target.value || '1'))))}
+                                className="rounded-lg border border-gray-300 px-2 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-center"
+                                style={{ width: '7ch' }}
+                            />
+                        </div>
+                        <div className="flex flex-col items-start">
+                            <label htmlFor="generator-cols" className="text-sm font-medium text-gray-700 mb-1">Columns</label>
+                            <input
+                                id="generator-cols"
+                                type="number"
+                                min={1}
+                                max={10}
+                                value={cols}
+                                onChange={(e) => setCols(Math.max(1, Math.min(10, parseInt(e.target.value || '1'))))}
+                                className="rounded-lg border border-gray-300 px-2 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-center"
+                                style={{ width: '7ch' }}
+                            />
+                        </div>
+                        <div className="flex flex-col items-start">
+                            <label htmlFor="generator-difficulty" className="text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+                            <select
+                                id="generator-difficulty"
+                                value={targetDifficulty}
+                                onChange={(e) => setDifficulty(e.target.value as GeneratorDifficulty)}
+                                className="rounded-lg border border-gray-300 px-2 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 capitalize"
+                            >
+                                {difficulties.map(level => <option key={level} value={level}>{level}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col items-start">
+                        <label htmlFor="generator-seed" className="text-sm font-medium text-gray-700 mb-1">Seed</label>
+                        <div className="flex w-full gap-2">
+                            <input
+                                id="generator-seed"
+                                type="text"
+                                value={seed}
+                                onChange={(e) => setSeed(e.target.value)}
+                                className="flex-1 rounded-lg border border-gray-300 px-2 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <Button variant="outline" onClick={() => setSeed(createRandomSeed())}>Random</Button>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">The same seed, size, difficulty and shapes always give the same puzzle. Seeds are retried until the difficulty rating matches.</p>
+                    </div>
+
+                    <div>
+                        <span className="text-sm font-medium text-gray-700">Shapes</span>
+                        <div className="mt-1 grid grid-cols-4 gap-1 max-h-40 overflow-y-auto">
+                            {shapes.map(shape => (
+                                <label key={shape.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={!excluded.has(shape.id)}
+                                        onChange={() => toggleShape(shape.id)}
+                                    />
+                                    <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: shape.color }} />
+                                    <span className="truncate">{shape.id}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {message && <p className="text-sm text-amber-700">{message}</p>}
+
+                    <div className="flex items-center justify-end gap-3">
+                        {solver.status.running && <Progress value={solver.status.progress * 100} className="flex-1" />}
+                        <Button onClick={handleGenerate} disabled={allowedShapes.length === 0 || !seed.trim() || solver.status.running}>
+                            {solver.status.running ? 'Generating…' : 'Generate'}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
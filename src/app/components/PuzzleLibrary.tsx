@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { PuzzleThumbnail } from './PuzzleThumbnail';
+import { DIFFICULTY_COLORS } from './DifficultyMeter';
+import { LibraryEntry } from '../library/libraryStore';
+import { useLibrary } from '../library/useLibrary';
+import { PuzzleFile, PuzzleFileShape, createPuzzleFile, fromPuzzleData } from '../puzzle/format';
+import { Puzzle } from '../puzzle/types';
+import { DIFFICULTY_LABELS, DifficultyLabel, getDifficultyLabel } from '../solver/difficulty';
+
+
+interface PuzzleLibraryProps {
+    puzzle: Puzzle;
+    customShapes: PuzzleFileShape[];
+    onOpenPuzzle: (file: PuzzleFile) => void;
+}
+
+type LibrarySort = 'recent' | 'name' | 'easiest' | 'hardest';
+
+// Entries waiting for a rating sort as the easiest
+const getSortDifficulty = (entry: LibraryEntry): number => entry.difficulty ?? -1;
+
+const SORTS: Record<LibrarySort, { label: string; compare: (a: LibraryEntry, b: LibraryEntry) => number }> = {
+    recent: { label: 'Recently updated', compare: (a, b) => b.updatedAt - a.updatedAt },
+    name: { label: 'Name', compare: (a, b) => a.name.localeCompare(b.name) },
+    easiest: { label: 'Easiest first', compare: (a, b) => getSortDifficulty(a) - getSortDifficulty(b) },
+    hardest: { label: 'Hardest first', compare: (a, b) => getSortDifficulty(b) - getSortDifficulty(a) },
+};
+
+
+export const PuzzleLibrary: React.FC<PuzzleLibraryProps> = ({ puzzle, customShapes, onOpenPuzzle }) => {
+    const { entries, error, save, rename, duplicate, remove } = useLibrary();
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [includeAttempt, setIncludeAttempt] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [sort, setSort] = useState<LibrarySort>('recent');
+    const [difficultyFilter, setDifficultyFilter] = useState<DifficultyLabel | 'all'>('all');
+
+    const shownEntries = entries
+        .filter(entry => difficultyFilter === 'all'
+            || (entry.difficulty !== undefined && getDifficultyLabel(entry.difficulty) === difficultyFilter))
+        .sort(SORTS[sort].compare);
+
+    const handleSave = () => {
+        const trimmed = name.trim() || `Puzzle ${entries.length + 1}`;
+        save(trimmed, createPuzzleFile(puzzle, customShapes, { includePieces: includeAttempt }));
+        setName('');
+    };
+
+    const handleOpen = (entry: LibraryEntry) => {
+        onOpenPuzzle(entry.puzzle);
+        setIsOpen(false);
+    };
+
+    const startRename = (entry: LibraryEntry) => {
+        setRenamingId(entry.id);
+        setRenameValue(entry.name);
+    };
+
+    const commitRename = (entry: LibraryEntry) => {
+        const trimmed = renameValue.trim();
+        if (trimmed && trimmed !== entry.name) {
+            rename(entry, trimmed);
+        }
+        setRenamingId(null);
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+                <button className="px-3 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors">
+                    Library
+                </button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Puzzle library</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-3">
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={name}
+                            placeholder={`Puzzle ${entries.length + 1}`}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                            className="flex-1 rounded-lg border border-gray-300 px-2 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <Button onClick={handleSave}>Save current</Button>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={includeAttempt}
+                            onChange={(e) => setIncludeAttempt(e.target.checked)}
+                        />
+                        Include placed pieces as a saved attempt
+                    </label>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+
+                <div className="flex gap-2">
+                    <select
+                        aria-label="Sort puzzles"
+                        value={sort}
+                        onChange={(e) => setSort(e.target.value as LibrarySort)}
+                        className="flex-1 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                    >
+                        {Object.entries(SORTS).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                    <select
+                        aria-label="Filter by difficulty"
+                        value={difficultyFilter}
+                        onChange={(e) => setDifficultyFilter(e.target.value as DifficultyLabel | 'all')}
+                        className="flex-1 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                    >
+                        <option value="all">All difficulties</option>
+                        {DIFFICULTY_LABELS.map(label => <option key={label} value={label}>{label}</option>)}
+                    </select>
+                </div>
+
+                <div className="max-h-96 overflow-y-auto space-y-2">
+                    {entries.length === 0 && (
+                        <p className="text-sm text-gray-500 text-center py-4">No saved puzzles yet</p>
+                    )}
+                    {entries.length > 0 && shownEntries.length === 0 && (
+                        <p className="text-sm text-gray-500 text-center py-4">No {difficultyFilter} puzzles</p>
+                    )}
+                    {shownEntries.map((entry) => (
+                        <div key={entry.id} className="flex items-center gap-3 p-2 rounded-lg border border-gray-200">
+                            <button onClick={() => handleOpen(entry)} title="Open puzzle" className="shrink-0">
+                                <PuzzleThumbnail puzzle={fromPuzzleData(entry.puzzle.puzzle)} size={56} />
+                            </button>
+                            <div className="flex-1 min-w-0">
+                                {renamingId === entry.id ? (
+                                    <input
+                                        autoFocus
+                                        type="text"
+                                        value={renameValue}
+                                        onChange={(e) => setRenameValue(e.target.value)}
+                                        onBlur={() => commitRename(entry)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename(entry);
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                        className="w-full rounded border border-gray-300 px-1 py-0.5 text-sm"
+                                    />
+                                ) : (
+                                    <p
+                                        className="text-sm font-medium truncate cursor-text"
+                                        title="Double-click to rename"
+                                        onDoubleClick={() => startRename(entry)}
+                                    >
+                                        {entry.name}
+                                    </p>
+                                )}
+                                <p className="text-xs text-gray-500">
+                                    {entry.puzzle.puzzle.rows}×{entry.puzzle.puzzle.cols}
+                                    {' · '}
+                                    {entry.difficulty === undefined ? 'Rating…' : (
+                                        <span style={{ color: DIFFICULTY_COLORS[getDifficultyLabel(entry.difficulty)] }}>
+                                            {getDifficultyLabel(entry.difficulty)} ({entry.difficulty})
+                                        </span>
+                                    )}
+                                    {entry.puzzle.puzzle.pieces?.length ? ' · with attempt' : ''}
+                                    {' · '}{new Date(entry.updatedAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                            <div className="flex flex-wrap justify-end gap-1 max-w-[11rem]">
+                                <Button size="sm" onClick={() => handleOpen(entry)}>Open</Button>
+                                <Button size="sm" variant="outline" onClick={() => startRename(entry)}>Rename</Button>
+                                <Button size="sm" variant="outline" onClick={() => duplicate(entry)}>Duplicate</Button>
+                                <Button size="sm" variant="destructive" onClick={() => remove(entry)}>Delete</Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,102 @@
+import { parseCellId } from '../puzzle/geometry';
+import { getCellColor } from '../puzzle/puzzle';
+import { Puzzle } from '../puzzle/types';
+import { getEliminationPath, getStarPoints } from './CellSymbolIcon';
+import { NEGATIVE_COLOR } from './TetrisShape';
+
+
+const gridCellColor = '#2d3748';
+const gridBackgroundColor = '#1a202c';
+
+
+interface PuzzleThumbnailProps {
+    puzzle: Puzzle;
+    size?: number;
+}
+
+
+// Static, non-interactive preview of a puzzle
+export const PuzzleThumbnail: React.FC<PuzzleThumbnailProps> = ({ puzzle, size = 72 }) => {
+    const { rows, cols } = puzzle;
+    const step = size / Math.max(rows, cols);
+    const gap = step * 0.12;
+    const width = cols * step;
+    const height = rows * step;
+
+    return (
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="rounded">
+            <rect width={width} height={height} fill={gridBackgroundColor} />
+            {Array(rows).fill(null).map((_, row) =>
+                Array(cols).fill(null).map((_, col) => (
+                    <rect
+                        key={`${row}-${col}`}
+                        x={col * step + gap / 2}
+                        y={row * step + gap / 2}
+                        width={step - gap}
+                        height={step - gap}
+                        fill={getCellColor(puzzle, row, col) ?? gridCellColor}
+                    />
+                ))
+            )}
+            {[...puzzle.cellSymbols].map(([cellId, symbol]) => {
+                const [row, col] = parseCellId(cellId);
+                if (symbol.kind === 'elimination') {
+                    return <path key={`symbol-${cellId}`} d={getEliminationPath((col + 0.5) * step, (row + 0.5) * step, step * 0.25)} stroke="white" strokeWidth={Math.max(1, step * 0.08)} fill="none" />;
+                }
+                if (symbol.kind === 'star') {
+                    return <polygon key={`symbol-${cellId}`} points={getStarPoints((col + 0.5) * step, (row + 0.5) * step, step * 0.28)} fill={symbol.color} />;
+                }
+                const negative = symbol.kind === 'tetris' && symbol.negative;
+                return (
+                    <rect
+                        key={`symbol-${cellId}`}
+                        x={col * step + step * 0.3}
+                        y={row * step + step * 0.3}
+                        width={step * 0.4}
+                        height={step * 0.4}
+                        rx={symbol.kind === 'square' ? step * 0.1 : undefined}
+                        fill={negative ? 'none' : symbol.color}
+                        stroke={negative ? NEGATIVE_COLOR : undefined}
+                        strokeWidth={negative ? 1 : undefined}
+                    />
+                );
+            })}
+            {[...puzzle.markedCells].map((cellId) => {
+                const [row, col] = parseCellId(cellId);
+                return (
+                    <rect
+                        key={`marker-${cellId}`}
+                        x={col * step + step * 0.38}
+                        y={row * step + step * 0.38}
+                        width={step * 0.24}
+                        height={step * 0.24}
+                        fill="white"
+                    />
+                );
+            })}
+            {[...puzzle.walls].map((wallId) => {
+                const [kind, rowText, colText] = wallId.split('-');
+                const row = Number(rowText);
+                const col = Number(colText);
+                const x1 = col * step;
+                const y1 = row * step;
+                return (
+                    <line
+                        key={wallId}
+                        x1={x1}
+                        y1={y1}
+                        x2={kind === 'h' ? x1 + step : x1}
+                        y2={kind === 'h' ? y1 : y1 + step}
+                        stroke="white"
+                        strokeWidth={Math.max(1.5, step * 0.12)}
+                        strokeLinecap="square"
+                    />
+                );
+            })}
+            {[...puzzle.starts].map((vertexId) => {
+                const [row, col] = parseCellId(vertexId);
+                return <circle key={`start-${vertexId}`} cx={col * step} cy={row * step} r={Math.max(2, step * 0.15)} fill="white" />;
+            })}
+        </svg>
+    );
+};
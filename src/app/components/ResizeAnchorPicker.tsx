@@ -0,0 +1,28 @@
+import { RESIZE_ANCHORS, ResizeAnchor } from '../puzzle/resize';
+
+
+interface ResizeAnchorPickerProps {
+    anchor: ResizeAnchor;
+    onChange: (anchor: ResizeAnchor) => void;
+}
+
+
+// 3×3 picker choosing which side or corner of the puzzle stays fixed when resizing
+export const ResizeAnchorPicker: React.FC<ResizeAnchorPickerProps> = ({ anchor, onChange }) => {
+    return (
+        <div className="grid grid-cols-3 gap-0.5 p-1 rounded-lg border border-gray-300 shadow-sm">
+            {RESIZE_ANCHORS.map((option) => (
+                <button
+                    key={option}
+                    type="button"
+                    onClick={() => onChange(option)}
+                    title={`Keep content anchored ${option === 'center' ? 'at the center' : `to the ${option.replace('-', ' ')}`}`}
+                    className={`w-3.5 h-3.5 rounded-sm transition-colors ${anchor === option
+                        ? 'bg-blue-500'
+                        : 'bg-gray-200 hover:bg-gray-300'
+                        }`}
+                />
+            ))}
+        </div>
+    );
+};
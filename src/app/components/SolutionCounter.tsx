@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Progress } from './ui/progress';
+import { SolutionCount } from '../solver/count';
+import { toPlacedPieces } from '../solver/tiling';
+import { useSolver } from '../solver/useSolver';
+import { getCellMinis, hasEliminationMarks } from '../puzzle/puzzle';
+import { PlacedPiece, Puzzle } from '../puzzle/types';
+
+
+interface SolutionCounterProps {
+    puzzle: Puzzle;
+    // Shows a solution on the grid without changing the puzzle, or hides it with null
+    onPreview: (pieces: PlacedPiece[] | null) => void;
+    onKeep: (pieces: PlacedPiece[]) => void;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 1000;
+
+
+const describeCount = ({ count, exact }: SolutionCount): string => {
+    if (count === 0) return 'No solution';
+    if (count === 1) return 'Unique solution';
+    return exact ? `${count} solutions` : `At least ${count} solutions (limit reached)`;
+};
+
+
+// Authoring aid: counts the puzzle's solutions and steps through them on the grid
+export const SolutionCounter: React.FC<SolutionCounterProps> = ({ puzzle, onPreview, onKeep }) => {
+    const solver = useSolver();
+    const [limit, setLimit] = useState(DEFAULT_LIMIT);
+    const [result, setResult] = useState<SolutionCount | null>(null);
+    const [index, setIndex] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const { rows, cols, walls } = puzzle;
+    const cellMinis = getCellMinis(puzzle);
+
+    // Solutions only hold for the walls and clues they were counted with
+    useEffect(() => {
+        setResult(null);
+        setError(null);
+        onPreview(null);
+        solver.cancel();
+    }, [rows, cols, walls, cellMinis]);
+
+    const count = () => {
+        setResult(null);
+        setError(null);
+        onPreview(null);
+        solver.start({ kind: 'count', rows, cols, walls, cellMinis, limit }, {
+            onSolution: (solution) => {
+                if (solution.kind !== 'count') return;
+                setResult(solution.result);
+                setIndex(0);
+            },
+            onDone: (outcome, _failure, message) => {
+                if (outcome === 'error') setError(`The solver failed: ${message}`);
+            },
+        });
+    };
+
+    const show = (next: number) => {
+        if (!result) return;
+        setIndex(next);
+        onPreview(toPlacedPieces(result.solutions[next]));
+    };
+
+    const solutionCount = result?.solutions.length ?? 0;
+
+    return (
+        <div className="rounded-lg border border-gray-200 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700 flex-1">Solutions</span>
+                <label htmlFor="solution-limit" className="text-xs text-gray-600">Max</label>
+                <input
+                    id="solution-limit"
+                    type="number"
+                    min={1}
+                    max={MAX_LIMIT}
+                    value={limit}
+                    onChange={(e) => setLimit(Math.max(1, Math.min(MAX_LIMIT, parseInt(e.target.value || '1'))))}
+                    className="rounded border border-gray-300 px-1 py-0.5 text-sm text-center"
+                    style={{ width: '7ch' }}
+                />
+                <button
+                    onClick={count}
+                    disabled={solver.status.running || cellMinis.size === 0}
+                    title="Count the piece placements for the tetris clues. Squares, stars and elimination marks are ignored"
+                    className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                >
+                    Count
+                </button>
+            </div>
+
+            {solver.status.running && (
+                <div className="flex items-center gap-3">
+                    <Progress value={solver.status.progress * 100} className="flex-1" />
+                    <button
+                        onClick={solver.cancel}
+                        className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {result && (
+                <>
+                    <p className={`text-sm ${result.count === 1 ? 'text-green-700' : 'text-red-600'}`}>
+                        {describeCount(result)}
+                        {hasEliminationMarks(puzzle) && <span className="text-gray-500"> · elimination marks ignored</span>}
+                    </p>
+                    {solutionCount > 0 && (
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => show((index - 1 + solutionCount) % solutionCount)}
+                                className="px-2 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                            >
+                                ‹
+                            </button>
+                            <button
+                                onClick={() => show(index)}
+                                className="flex-1 px-2 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors tabular-nums"
+                            >
+                                Show {index + 1} / {solutionCount}
+                            </button>
+                            <button
+                                onClick={() => show((index + 1) % solutionCount)}
+                                className="px-2 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                            >
+                                ›
+                            </button>
+                            <button
+                                onClick={() => onKeep(toPlacedPieces(result.solutions[index]))}
+                                className="px-2 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                            >
+                                Keep
+                            </button>
+                            <button
+                                onClick={() => onPreview(null)}
+                                className="px-2 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                            >
+                                Hide
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -19,11 +19,15 @@ const COLOR_PALETTE = [
     '#1e90ff',
 ];
 
+// Negative pieces are drawn hollow in this color, whatever their own color
+export const NEGATIVE_COLOR = '#2563eb';
+
 
 interface TetrisShapeProps {
     type: string;
     color: string;
     pattern: number[][];
+    negative?: boolean;
     pieceId?: string;
     onRemove?: () => void;
     onRotate?: () => void;
@@ -33,7 +37,7 @@ interface TetrisShapeProps {
 
 
 export const TetrisShape = React.forwardRef<HTMLDivElement, TetrisShapeProps>(
-    ({ type, color, pattern, pieceId, onRemove, onRotate, style, cellSize = 33 }, forwardedRef) => {
+    ({ type, color, pattern, negative = false, pieceId, onRemove, onRotate, style, cellSize = 33 }, forwardedRef) => {
         const dragStartOffsetRef = React.useRef<{ x: number; y: number }>({ x: 0, y: 0 });
         const [isHovered, setIsHovered] = React.useState(false);
 
@@ -48,7 +52,7 @@ export const TetrisShape = React.forwardRef<HTMLDivElement, TetrisShapeProps>(
                         y: initialOffset.y - sourceOffset.y
                     };
                 }
-                return { type, pattern, pieceId, color, pointerOffset: dragStartOffsetRef.current };
+                return { type, pattern, pieceId, color, negative, pointerOffset: dragStartOffsetRef.current };
             },
             end: (item, monitor) => {
                 if (!monitor.didDrop() && pieceId && onRemove) {
@@ -58,7 +62,7 @@ export const TetrisShape = React.forwardRef<HTMLDivElement, TetrisShapeProps>(
             collect: (monitor) => ({
                 isDragging: !!monitor.isDragging(),
             }),
-        }), [type, pattern, pieceId, color, onRemove]);
+        }), [type, pattern, pieceId, color, negative, onRemove]);
 
         const setRefs = React.useCallback((node: HTMLDivElement | null) => {
             drag(node);
@@ -96,8 +100,8 @@ export const TetrisShape = React.forwardRef<HTMLDivElement, TetrisShapeProps>(
                                         style={{
                                             width: `${cellSize}px`,
                                             height: `${cellSize}px`,
-                                            backgroundColor: color,
-                                            border: '1px solid #1a202c',
+                                            backgroundColor: negative ? 'transparent' : color,
+                                            border: negative ? `3px solid ${NEGATIVE_COLOR}` : '1px solid #1a202c',
                                             boxSizing: 'border-box',
                                             borderRadius: 0,
                                             pointerEvents: 'auto',
@@ -0,0 +1,26 @@
+import { useCallback, useState } from 'react';
+import { PuzzleCommand } from '../puzzle/commands';
+import { History, canRedo, canUndo, createHistory, execute, redo, undo } from '../puzzle/history';
+import { Puzzle } from '../puzzle/types';
+
+
+// Puzzle state whose every change goes through a recorded command
+export const usePuzzleHistory = (createInitialPuzzle: () => Puzzle) => {
+    const [history, setHistory] = useState<History>(() => createHistory(createInitialPuzzle()));
+
+    const executeCommand = useCallback((command: PuzzleCommand) => {
+        setHistory(prev => execute(prev, command));
+    }, []);
+
+    const undoCommand = useCallback(() => setHistory(prev => undo(prev)), []);
+    const redoCommand = useCallback(() => setHistory(prev => redo(prev)), []);
+
+    return {
+        puzzle: history.present,
+        execute: executeCommand,
+        undo: undoCommand,
+        redo: redoCommand,
+        canUndo: canUndo(history),
+        canRedo: canRedo(history),
+    };
+};
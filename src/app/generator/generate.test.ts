@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import pieceConfig from '../../piece_config.json';
+import { getCellMinis } from '../puzzle/puzzle';
+import { countSolutions } from '../solver/count';
+import { createSearchStats, runSearch } from '../solver/search';
+import { GeneratorOptions, MAX_GENERATION_ATTEMPTS, generateCalibratedSearch, generatePuzzle, getGeneratorDifficulties } from './generate';
+
+
+const options: GeneratorOptions = {
+    rows: 5,
+    cols: 5,
+    shapes: [
+        { pattern: [[1, 1], [1, 1]], color: '#F5BE02' },
+        { pattern: [[1, 1, 1, 1]], color: '#00f0f0' },
+        { pattern: [[1, 0], [1, 0], [1, 1]], color: '#a000f0' },
+    ],
+    difficulty: 'medium',
+    seed: 'test-seed',
+};
+
+
+describe('generatePuzzle', () => {
+    it('gives the same puzzle for the same options', () => {
+        expect(generatePuzzle(options)).toEqual(generatePuzzle(options));
+        expect(generatePuzzle({ ...options, seed: 'other-seed' })).not.toEqual(generatePuzzle(options));
+    });
+
+    it('generates puzzles with a unique solution', () => {
+        for (const difficulty of ['easy', 'medium', 'hard'] as const) {
+            const puzzle = generatePuzzle({ ...options, difficulty });
+            expect(countSolutions(puzzle.rows, puzzle.cols, puzzle.walls, getCellMinis(puzzle), 2).count).toBe(1);
+        }
+    });
+});
+
+
+
+describe('generateCalibratedSearch', () => {
+    const generate = (difficulty: GeneratorOptions['difficulty']) =>
+        runSearch(generateCalibratedSearch({ ...options, difficulty }, createSearchStats()));
+
+    it('keeps the puzzle of the requested seed when its rating matches', () => {
+        const result = generate('easy');
+        expect(result).toMatchObject({ matched: true, attempts: 1 });
+        expect(['Trivial', 'Easy']).toContain(result.rating.label);
+        expect(result.puzzle).toEqual(generatePuzzle({ ...options, difficulty: 'easy' }));
+    });
+
+    it('finds a hard puzzle on a 5×5 grid with the default shapes', () => {
+        const shapes = pieceConfig.pieces.filter(piece => piece.enabled).map(({ pattern }) => ({ pattern, color: '#F5BE02' }));
+        const result = runSearch(generateCalibratedSearch({ ...options, shapes, difficulty: 'hard' }, createSearchStats()));
+        expect(result.matched).toBe(true);
+        expect(['Hard', 'Expert']).toContain(result.rating.label);
+    });
+
+    it('settles for the closest rating when no seed can match', () => {
+        // Single cells only ever tile in one obvious way
+        const result = runSearch(generateCalibratedSearch(
+            { ...options, rows: 3, cols: 3, shapes: [{ pattern: [[1]], color: '#F5BE02' }], difficulty: 'medium' },
+            createSearchStats(),
+        ));
+        expect(result).toMatchObject({ matched: false, attempts: MAX_GENERATION_ATTEMPTS });
+        expect(result.rating.label).toBe('Easy');
+    });
+});
+
+
+describe('getGeneratorDifficulties', () => {
+    it('only offers hard on grids large enough to reach it', () => {
+        expect(getGeneratorDifficulties(5, 5)).toContain('hard');
+        expect(getGeneratorDifficulties(4, 4)).toEqual(['easy', 'medium']);
+    });
+});
@@ -0,0 +1,280 @@
+import { countCells, parseCellId } from '../puzzle/geometry';
+import { createPuzzle, getCellMinis } from '../puzzle/puzzle';
+import { CellId, CellSymbol, EdgeId, Pattern, Puzzle } from '../puzzle/types';
+import { countRegionTilings } from '../solver/count';
+import { DIFFICULTY_LABELS, DifficultyLabel, DifficultyRating, rateDifficultySearch } from '../solver/difficulty';
+import { Search, SearchStats, createSearchStats } from '../solver/search';
+import { getOrientations } from '../solver/tiling';
+import { Random, createRandom } from './random';
+
+
+export type GeneratorDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface GeneratorShape {
+    pattern: Pattern;
+    color: string;
+}
+
+export interface GeneratorOptions {
+    rows: number;
+    cols: number;
+    shapes: GeneratorShape[];
+    difficulty: GeneratorDifficulty;
+    seed: string;
+}
+
+interface DifficultySettings {
+    // Most pieces sharing one walled region
+    maxPiecesPerRegion: number;
+    // Share of clues drawn tilted, i.e. placeable in any rotation
+    rotatableShare: number;
+    // Chance of leaving a cell blank instead of starting a piece on it
+    blankChance: number;
+}
+
+const DIFFICULTY_SETTINGS: Record<GeneratorDifficulty, DifficultySettings> = {
+    easy: { maxPiecesPerRegion: 2, rotatableShare: 0, blankChance: 0.15 },
+    medium: { maxPiecesPerRegion: 3, rotatableShare: 0.5, blankChance: 0.08 },
+    hard: { maxPiecesPerRegion: 12, rotatableShare: 0.5, blankChance: 0 },
+};
+
+// Labels of the difficulty rating each generator difficulty aims for
+const TARGET_LABELS: Record<GeneratorDifficulty, DifficultyLabel[]> = {
+    easy: ['Trivial', 'Easy'],
+    medium: ['Medium'],
+    hard: ['Hard', 'Expert'],
+};
+
+// Smaller grids have too few pieces to reach a Hard rating
+const MIN_HARD_GRID_CELLS = 25;
+
+// Seeds tried before settling for the closest rating
+export const MAX_GENERATION_ATTEMPTS = 20;
+
+export interface CalibratedPuzzle {
+    puzzle: Puzzle;
+    rating: DifficultyRating;
+    // The rating falls on the requested difficulty
+    matched: boolean;
+    attempts: number;
+}
+
+interface GeneratedPiece {
+    shape: GeneratorShape;
+    // Pattern as placed on the grid
+    pattern: Pattern;
+    cells: CellId[];
+}
+
+
+// Covers the grid with random pieces, filling the first free cell (row-major) each
+// time. Cells where no piece fits, or skipped by chance, stay blank.
+const fillGrid = (rows: number, cols: number, shapes: GeneratorShape[], random: Random, blankChance: number) => {
+    const owner: (number | null)[][] = Array(rows).fill(null).map(() => Array(cols).fill(null));
+    const pieces: GeneratedPiece[] = [];
+    const orientations = shapes.map(shape => getOrientations(shape.pattern));
+
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            if (owner[row][col] !== null || random.chance(blankChance)) continue;
+
+            const candidates = random.shuffle(shapes.map((_, index) => index))
+                .flatMap(index => random.shuffle(orientations[index]).map(orientation => ({ index, orientation })));
+            for (const { index, orientation } of candidates) {
+                const cells = orientation.offsets.map(([dr, dc]) => [row + dr, col + dc]);
+                const fits = cells.every(([r, c]) => r >= 0 && r < rows && c >= 0 && c < cols && owner[r][c] === null);
+                if (!fits) continue;
+
+                cells.forEach(([r, c]) => owner[r][c] = pieces.length);
+                pieces.push({ shape: shapes[index], pattern: orientation.pattern, cells: cells.map(([r, c]) => `${r}-${c}`) });
+                break;
+            }
+        }
+    }
+    return { owner, pieces };
+};
+
+
+// Groups adjacent pieces into regions of at most `maxPieces` pieces, and blank
+// cells into connected blank regions. Returns the group of every cell.
+const groupCells = (rows: number, cols: number, owner: (number | null)[][], pieceCount: number, maxPieces: number, random: Random) => {
+    // Union-find over pieces, then one extra node per blank cell
+    const parent = Array.from({ length: pieceCount + rows * cols }, (_, index) => index);
+    const size = parent.map(() => 1);
+    const find = (node: number): number => {
+        while (parent[node] !== node) {
+            parent[node] = parent[parent[node]];
+            node = parent[node];
+        }
+        return node;
+    };
+    const nodeOf = (row: number, col: number) => owner[row][col] ?? pieceCount + row * cols + col;
+
+    const pairs: [number, number][] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            if (col + 1 < cols) pairs.push([nodeOf(row, col), nodeOf(row, col + 1)]);
+            if (row + 1 < rows) pairs.push([nodeOf(row, col), nodeOf(row + 1, col)]);
+        }
+    }
+
+    for (const [a, b] of random.shuffle(pairs)) {
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA === rootB) continue;
+        const blankA = a >= pieceCount;
+        const blankB = b >= pieceCount;
+        // Blank cells only join each other; pieces join while the region stays small enough
+        if (blankA !== blankB) continue;
+        if (!blankA && size[rootA] + size[rootB] > maxPieces) continue;
+        parent[rootB] = rootA;
+        size[rootA] += size[rootB];
+    }
+
+    return (row: number, col: number) => find(nodeOf(row, col));
+};
+
+
+// Difficulties the generator can aim for on a grid of this size
+export const getGeneratorDifficulties = (rows: number, cols: number): GeneratorDifficulty[] =>
+    rows * cols >= MIN_HARD_GRID_CELLS ? ['easy', 'medium', 'hard'] : ['easy', 'medium'];
+
+
+// Whether the cells form a single orthogonally connected area
+const isConnected = (cells: CellId[]): boolean => {
+    const remaining = new Set(cells);
+    const stack = cells.slice(0, 1);
+    remaining.delete(cells[0]);
+    while (stack.length > 0) {
+        const [row, col] = parseCellId(stack.pop()!);
+        for (const neighbour of [`${row - 1}-${col}`, `${row + 1}-${col}`, `${row}-${col - 1}`, `${row}-${col + 1}`]) {
+            if (remaining.delete(neighbour)) stack.push(neighbour);
+        }
+    }
+    return remaining.size === 0;
+};
+
+
+// Generates a tetris puzzle with exactly one solution: walls enclose regions and
+// each region holds one clue per piece it must be tiled with. The same options
+// always give the same puzzle.
+export const generatePuzzle = ({ rows, cols, shapes, difficulty, seed }: GeneratorOptions): Puzzle => {
+    const settings = DIFFICULTY_SETTINGS[difficulty];
+    const random = createRandom(`${seed}|${rows}x${cols}|${difficulty}`);
+    const usableShapes = shapes.filter(shape => countCells(shape.pattern) > 0);
+
+    const { owner, pieces } = fillGrid(rows, cols, usableShapes, random, settings.blankChance);
+    let groupOf = groupCells(rows, cols, owner, pieces.length, settings.maxPiecesPerRegion, random);
+
+    const piecesByGroup = new Map<number, number[]>();
+    pieces.forEach((piece, index) => {
+        const [row, col] = parseCellId(piece.cells[0]);
+        const group = groupOf(row, col);
+        piecesByGroup.set(group, [...(piecesByGroup.get(group) ?? []), index]);
+    });
+
+    const cellSymbols = new Map<CellId, CellSymbol>();
+    // Pieces whose region had several tilings get a region of their own
+    const isolated = new Set<number>();
+    const noWalls = new Set<EdgeId>();
+
+    const makeClues = (indices: number[], rotatable: (index: number) => boolean) => {
+        const regionCells = random.shuffle(indices.flatMap(index => pieces[index].cells));
+        return indices.map((index, i) => {
+            const { shape, pattern } = pieces[index];
+            const tilted = rotatable(index);
+            // Tilted clues show the shape as drawn in the palette, upright ones as placed
+            return { cellId: regionCells[i], mini: { pattern: tilted ? shape.pattern : pattern, color: shape.color, rotatable: tilted } };
+        });
+    };
+
+    // The tiling search expects the region's cells in row-major order
+    const getRegion = (indices: number[]) => indices.flatMap(index => pieces[index].cells)
+        .map(parseCellId)
+        .sort((a, b) => a[0] - b[0] || a[1] - b[1])
+        .map(([row, col]) => `${row}-${col}`);
+
+    for (let indices of piecesByGroup.values()) {
+        const tilted = new Set(indices.filter(() => random.chance(settings.rotatableShare)));
+        let clues = makeClues(indices, index => tilted.has(index));
+
+        // Pieces are split off one at a time until the rest tiles in a single way,
+        // so hard puzzles keep large regions
+        while (indices.length > 1 && countRegionTilings(getRegion(indices), clues, noWalls, 2) > 1) {
+            clues = makeClues(indices, () => false);
+            if (countRegionTilings(getRegion(indices), clues, noWalls, 2) === 1) break;
+
+            // Prefer a piece that leaves a uniquely tiled rest, so fewer pieces are split off
+            const rest = indices;
+            const candidates = random.shuffle(rest).filter(index => isConnected(getRegion(rest.filter(other => other !== index))));
+            const split = candidates.find(index => {
+                const others = rest.filter(other => other !== index);
+                return countRegionTilings(getRegion(others), makeClues(others, other => tilted.has(other)), noWalls, 2) === 1;
+            }) ?? candidates[0];
+            isolated.add(split);
+            // A lone piece fills its region in a single way, tilted or not
+            makeClues([split], () => tilted.has(split)).forEach(({ cellId, mini }) => cellSymbols.set(cellId, { kind: 'tetris', ...mini }));
+            indices = rest.filter(index => index !== split);
+            clues = makeClues(indices, index => tilted.has(index));
+        }
+        clues.forEach(({ cellId, mini }) => cellSymbols.set(cellId, { kind: 'tetris', ...mini }));
+    }
+
+    if (isolated.size > 0) {
+        const merged = groupOf;
+        groupOf = (row, col) => {
+            const piece = owner[row][col];
+            return piece !== null && isolated.has(piece) ? -1 - piece : merged(row, col);
+        };
+    }
+
+    // Walls between neighbouring cells of different regions
+    const walls = new Set<EdgeId>();
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            if (col + 1 < cols && groupOf(row, col) !== groupOf(row, col + 1)) walls.add(`v-${row}-${col + 1}`);
+            if (row + 1 < rows && groupOf(row, col) !== groupOf(row + 1, col)) walls.add(`h-${row + 1}-${col}`);
+        }
+    }
+
+    return { ...createPuzzle(rows, cols), walls, cellSymbols };
+};
+
+
+// Distance on the rating scale from the labels a difficulty aims for
+const getLabelDistance = (label: DifficultyLabel, difficulty: GeneratorDifficulty): number => {
+    const index = DIFFICULTY_LABELS.indexOf(label);
+    return Math.min(...TARGET_LABELS[difficulty].map(target => Math.abs(DIFFICULTY_LABELS.indexOf(target) - index)));
+};
+
+
+// Generates puzzles from derived seeds until the difficulty rating agrees with the
+// requested difficulty, keeping the closest one if none does. The settings above
+// only make a difficulty likely; the rating is what decides. Deterministic like
+// generatePuzzle.
+export function* generateCalibratedSearch(options: GeneratorOptions, stats: SearchStats): Search<CalibratedPuzzle> {
+    let best: CalibratedPuzzle | null = null;
+    let attempts = 0;
+    const frame: [number, number] = [0, MAX_GENERATION_ATTEMPTS];
+    stats.frames.push(frame);
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+        attempts = attempt;
+        const puzzle = generatePuzzle({ ...options, seed: attempt === 1 ? options.seed : `${options.seed}#${attempt}` });
+        // Each rating needs its own counters
+        const ratingStats = createSearchStats();
+        const rating = yield* rateDifficultySearch(puzzle.rows, puzzle.cols, puzzle.walls, getCellMinis(puzzle), ratingStats);
+        stats.nodes += ratingStats.nodes;
+
+        const distance = getLabelDistance(rating.label, options.difficulty);
+        if (!best || distance < getLabelDistance(best.rating.label, options.difficulty)) {
+            best = { puzzle, rating, matched: distance === 0, attempts };
+        }
+        if (distance === 0) break;
+        frame[0]++;
+        yield;
+    }
+
+    stats.frames.pop();
+    return { ...best!, attempts };
+}
@@ -0,0 +1,57 @@
+// Seeded pseudo-random numbers, so a seed string always reproduces the same puzzle
+
+export interface Random {
+    // Uniform in [0, 1)
+    next: () => number;
+    // Integer in [0, max)
+    int: (max: number) => number;
+    chance: (probability: number) => boolean;
+    shuffle: <T>(items: T[]) => T[];
+}
+
+
+// 32-bit hash of a string (cyrb-style), spreading similar seeds far apart
+const hashSeed = (seed: string): number => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < seed.length; i++) {
+        const code = seed.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    return h1 >>> 0;
+};
+
+
+// mulberry32 generator
+export const createRandom = (seed: string): Random => {
+    let state = hashSeed(seed);
+
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const int = (max: number) => Math.floor(next() * max);
+
+    return {
+        next,
+        int,
+        chance: (probability) => next() < probability,
+        // Fisher-Yates on a copy
+        shuffle: (items) => {
+            const shuffled = [...items];
+            for (let i = shuffled.length - 1; i > 0; i--) {
+                const j = int(i + 1);
+                [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+            }
+            return shuffled;
+        },
+    };
+};
+
+
+export const createRandomSeed = (): string => Math.random().toString(36).slice(2, 8);
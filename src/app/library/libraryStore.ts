@@ -0,0 +1,100 @@
+import { PuzzleFile, readPuzzleFile } from '../puzzle/format';
+
+// Saved puzzles live in IndexedDB rather than localStorage, which caps out
+// at a few megabytes once a collection grows.
+
+const DB_NAME = 'witness-sandbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'puzzles';
+
+
+export interface LibraryEntry {
+    id: string;
+    name: string;
+    puzzle: PuzzleFile;
+    // Difficulty score from 0 to 100, missing until the solver worker has rated the entry
+    difficulty?: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                databasePromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return databasePromise;
+};
+
+
+// Runs a single request in its own transaction
+const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+
+export const createLibraryEntryId = (): string =>
+    `puzzle-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+
+// Most recently updated first. Entries saved in an older file format are migrated
+// on read; entries that no longer validate are skipped.
+export const listLibraryEntries = async (): Promise<LibraryEntry[]> => {
+    const entries = await run<LibraryEntry[]>('readonly', store => store.getAll());
+    return entries
+        .flatMap(entry => {
+            try {
+                const puzzle = readPuzzleFile(entry.puzzle);
+                return [{ ...entry, puzzle }];
+            } catch (e) {
+                console.error(`Skipping unreadable library entry "${entry.name}":`, e);
+                return [];
+            }
+        })
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+
+export const putLibraryEntry = async (entry: LibraryEntry): Promise<void> => {
+    await run('readwrite', store => store.put(entry));
+};
+
+
+// Stores a rating worked out after the entry was saved, unless the entry has been deleted since
+export const setLibraryEntryDifficulty = async (id: string, difficulty: number): Promise<void> => {
+    await run('readwrite', store => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+            if (request.result) store.put({ ...request.result, difficulty });
+        };
+        return request;
+    });
+};
+
+
+export const deleteLibraryEntry = async (id: string): Promise<void> => {
+    await run('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PuzzleFile, fromPuzzleData } from '../puzzle/format';
+import { getCellMinis } from '../puzzle/puzzle';
+import { useSolver } from '../solver/useSolver';
+import {
+    LibraryEntry, createLibraryEntryId, deleteLibraryEntry, listLibraryEntries, putLibraryEntry, setLibraryEntryDifficulty,
+} from './libraryStore';
+
+
+// Saved puzzle list kept in sync with IndexedDB
+export const useLibrary = () => {
+    const [entries, setEntries] = useState<LibraryEntry[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [ratingId, setRatingId] = useState<string | null>(null);
+    // Entries the solver failed on, not retried until the page reloads
+    const unratableRef = useRef(new Set<string>());
+    const { start } = useSolver();
+
+    const refresh = useCallback(async () => {
+        try {
+            setEntries(await listLibraryEntries());
+            setError(null);
+        } catch (e) {
+            console.error('Failed to load puzzle library:', e);
+            setError('The puzzle library is unavailable in this browser');
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Unrated entries are rated one at a time in the background, and the score
+    // is stored so that each entry is only rated once
+    useEffect(() => {
+        if (ratingId) return;
+        const entry = entries.find(candidate => candidate.difficulty === undefined && !unratableRef.current.has(candidate.id));
+        if (!entry) return;
+
+        const puzzle = fromPuzzleData(entry.puzzle.puzzle);
+        setRatingId(entry.id);
+        start({ kind: 'rate', rows: puzzle.rows, cols: puzzle.cols, walls: puzzle.walls, cellMinis: getCellMinis(puzzle) }, {
+            onSolution: (solution) => {
+                if (solution.kind !== 'rate') return;
+                const difficulty = solution.rating.score;
+                setEntries(current => current.map(other => other.id === entry.id ? { ...other, difficulty } : other));
+                setLibraryEntryDifficulty(entry.id, difficulty).catch(e => console.error('Failed to store a library rating:', e));
+            },
+            onDone: (outcome) => {
+                if (outcome !== 'solved') unratableRef.current.add(entry.id);
+                setRatingId(null);
+            },
+        }, { background: true });
+    }, [entries, ratingId, start]);
+
+    // Runs a write and reloads the list, whatever the outcome
+    const mutate = useCallback(async (write: () => Promise<void>) => {
+        try {
+            await write();
+        } catch (e) {
+            console.error('Failed to update puzzle library:', e);
+            setError('Could not update the puzzle library');
+        }
+        await refresh();
+    }, [refresh]);
+
+    const save = useCallback((name: string, puzzle: PuzzleFile) => mutate(() => {
+        const now = Date.now();
+        return putLibraryEntry({ id: createLibraryEntryId(), name, puzzle, createdAt: now, updatedAt: now });
+    }), [mutate]);
+
+    const rename = useCallback((entry: LibraryEntry, name: string) => mutate(() =>
+        putLibraryEntry({ ...entry, name, updatedAt: Date.now() }),
+    ), [mutate]);
+
+    const duplicate = useCallback((entry: LibraryEntry) => mutate(() => {
+        const now = Date.now();
+        return putLibraryEntry({ ...entry, id: createLibraryEntryId(), name: `${entry.name} (copy)`, createdAt: now, updatedAt: now });
+    }), [mutate]);
+
+    const remove = useCallback((entry: LibraryEntry) => mutate(() => deleteLibraryEntry(entry.id)), [mutate]);
+
+    return { entries, error, save, rename, duplicate, remove };
+};
@@ -0,0 +1,73 @@
+import {
+    clearPuzzle, placePiece, removePiece, rotatePiece, setClue, setLine, setPieces, setSymbol, setWalls, toggleBrokenEdge,
+    toggleClueRotatable, toggleDot, toggleEnd, toggleMarker, toggleStart, toggleWall,
+} from './puzzle';
+import { ResizeAnchor, resizePuzzle } from './resize';
+import { CellId, CellSymbol, ClueMini, DotId, EdgeId, PlacedPiece, Puzzle, VertexId } from './types';
+
+
+// Every change to a puzzle is described by a command, so it can be recorded and replayed
+export type PuzzleCommand =
+    | { type: 'placePiece'; piece: PlacedPiece }
+    | { type: 'rotatePiece'; id: string }
+    | { type: 'removePiece'; id: string }
+    | { type: 'setPieces'; pieces: PlacedPiece[] }
+    | { type: 'toggleWall'; edgeId: EdgeId }
+    | { type: 'setWalls'; walls: EdgeId[] }
+    | { type: 'setClue'; cellId: CellId; mini: ClueMini | null }
+    | { type: 'setSymbol'; cellId: CellId; symbol: CellSymbol | null }
+    | { type: 'toggleClueRotatable'; cellId: CellId }
+    | { type: 'toggleMarker'; cellId: CellId }
+    | { type: 'toggleStart'; vertexId: VertexId }
+    | { type: 'toggleEnd'; vertexId: VertexId }
+    | { type: 'toggleBrokenEdge'; edgeId: EdgeId }
+    | { type: 'toggleDot'; dotId: DotId }
+    | { type: 'setLine'; line: VertexId[] }
+    | { type: 'resize'; rows: number; cols: number; anchor: ResizeAnchor }
+    | { type: 'clear' }
+    | { type: 'load'; puzzle: Puzzle }
+    | { type: 'batch'; commands: PuzzleCommand[] };
+
+
+export const applyCommand = (puzzle: Puzzle, command: PuzzleCommand): Puzzle => {
+    switch (command.type) {
+        case 'placePiece':
+            return placePiece(puzzle, command.piece);
+        case 'rotatePiece':
+            return rotatePiece(puzzle, command.id);
+        case 'removePiece':
+            return removePiece(puzzle, command.id);
+        case 'setPieces':
+            return setPieces(puzzle, command.pieces);
+        case 'toggleWall':
+            return toggleWall(puzzle, command.edgeId);
+        case 'setWalls':
+            return setWalls(puzzle, command.walls);
+        case 'setClue':
+            return setClue(puzzle, command.cellId, command.mini);
+        case 'setSymbol':
+            return setSymbol(puzzle, command.cellId, command.symbol);
+        case 'toggleClueRotatable':
+            return toggleClueRotatable(puzzle, command.cellId);
+        case 'toggleMarker':
+            return toggleMarker(puzzle, command.cellId);
+        case 'toggleStart':
+            return toggleStart(puzzle, command.vertexId);
+        case 'toggleEnd':
+            return toggleEnd(puzzle, command.vertexId);
+        case 'toggleBrokenEdge':
+            return toggleBrokenEdge(puzzle, command.edgeId);
+        case 'toggleDot':
+            return toggleDot(puzzle, command.dotId);
+        case 'setLine':
+            return setLine(puzzle, command.line);
+        case 'resize':
+            return resizePuzzle(puzzle, command.rows, command.cols, command.anchor).puzzle;
+        case 'clear':
+            return clearPuzzle(puzzle);
+        case 'load':
+            return command.puzzle;
+        case 'batch':
+            return command.commands.reduce(applyCommand, puzzle);
+    }
+};
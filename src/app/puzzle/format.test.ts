@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+    PUZZLE_FILE_FORMAT, PUZZLE_FILE_VERSION, PuzzleFileError, createPuzzleFile, fromPuzzleData, migratePuzzleFile,
+    parsePuzzleFileText, readPuzzleFile,
+} from './format';
+import { createPuzzle } from './puzzle';
+import { Puzzle } from './types';
+
+
+const emptyData = { rows: 2, cols: 2, walls: [], markedCells: [], cellSymbols: [], starts: [], ends: [], brokenEdges: [], dots: [] };
+
+const currentFile = (puzzle: object) => ({ format: PUZZLE_FILE_FORMAT, version: PUZZLE_FILE_VERSION, puzzle: { ...emptyData, ...puzzle }, customShapes: [] });
+
+const readError = (document: unknown): string => {
+    try {
+        readPuzzleFile(document);
+    } catch (error) {
+        if (error instanceof PuzzleFileError) return error.message;
+        throw error;
+    }
+    throw new Error('expected a PuzzleFileError');
+};
+
+
+describe('migratePuzzleFile', () => {
+    it('wraps bare version 0 puzzle data', () => {
+        const data = { rows: 1, cols: 1, walls: [], markedCells: [], cellMinis: [] };
+        expect(migratePuzzleFile(data)).toMatchObject({ format: PUZZLE_FILE_FORMAT, version: PUZZLE_FILE_VERSION, customShapes: [] });
+    });
+
+    it('turns version 1 clues into rotatable tetris symbols with empty line elements', () => {
+        const file = readPuzzleFile({
+            format: PUZZLE_FILE_FORMAT,
+            version: 1,
+            puzzle: { rows: 2, cols: 2, walls: ['v-0-1'], markedCells: [], cellMinis: [{ cellId: '0-0', pattern: [[1, 1]], color: '#F5BE02' }] },
+            customShapes: [],
+        });
+        expect(file.version).toBe(PUZZLE_FILE_VERSION);
+        expect(file.puzzle).toEqual({
+            rows: 2,
+            cols: 2,
+            walls: ['v-0-1'],
+            markedCells: [],
+            cellSymbols: [{ cellId: '0-0', kind: 'tetris', pattern: [[1, 1]], color: '#F5BE02', rotatable: true }],
+            starts: [],
+            ends: [],
+            brokenEdges: [],
+            dots: [],
+        });
+    });
+
+    it('rejects newer versions and other documents', () => {
+        expect(() => migratePuzzleFile({ format: PUZZLE_FILE_FORMAT, version: PUZZLE_FILE_VERSION + 1 })).toThrow(/only reads up to version/);
+        expect(() => migratePuzzleFile([])).toThrow(PuzzleFileError);
+        expect(() => migratePuzzleFile({ hello: 'world' })).toThrow(PuzzleFileError);
+    });
+});
+
+
+describe('readPuzzleFile', () => {
+    it('round-trips a puzzle through a file', () => {
+        const puzzle: Puzzle = {
+            ...createPuzzle(3, 3),
+            walls: new Set(['h-1-0', 'v-2-3']),
+            markedCells: new Set(['2-1']),
+            cellSymbols: new Map([
+                ['0-0', { kind: 'tetris', pattern: [[1, 1]], color: '#F5BE02', rotatable: false, negative: true }],
+                ['1-1', { kind: 'star', color: '#000000' }],
+                ['1-2', { kind: 'square', color: '#ffffff' }],
+                ['2-2', { kind: 'elimination' }],
+            ]),
+            starts: new Set(['3-0']),
+            ends: new Set(['0-3']),
+            brokenEdges: new Set(['h-3-2']),
+            dots: new Set(['1-1', 'v-0-0']),
+        };
+        const text = JSON.stringify(createPuzzleFile(puzzle, []));
+        expect(fromPuzzleData(parsePuzzleFileText(text).puzzle)).toEqual(puzzle);
+    });
+
+    it('only keeps the custom shapes the puzzle uses', () => {
+        const puzzle: Puzzle = { ...createPuzzle(2, 2), cellSymbols: new Map([['0-0', { kind: 'tetris', pattern: [[1], [1]], color: '#ff69b4', rotatable: true }]]) };
+        const shapes = [{ id: 'shape-1', pattern: [[1, 1]], color: '#ff69b4' }, { id: 'shape-2', pattern: [[1]], color: '#ff69b4' }];
+        expect(createPuzzleFile(puzzle, shapes).customShapes).toEqual([shapes[0]]);
+    });
+
+    it('points at the first invalid field', () => {
+        expect(readError(currentFile({ walls: ['x-0-0'] }))).toMatch(/^puzzle\.walls\[0\]: /);
+        expect(readError(currentFile({ markedCells: ['2-0'] }))).toMatch(/^puzzle\.markedCells\[0\]: /);
+        expect(readError(currentFile({ cellSymbols: [{ cellId: '0-0', kind: 'tetris', pattern: [[0]], color: '#fff', rotatable: true }] }))).toBe('puzzle.cellSymbols[0].pattern: expected at least one filled block');
+        expect(readError(currentFile({ cellSymbols: [{ cellId: '0-0', kind: 'tetris', pattern: [[1]], color: '#fff' }] }))).toBe('puzzle.cellSymbols[0].rotatable: expected true or false');
+        expect(readError(currentFile({ cellSymbols: [{ cellId: '0-0', kind: 'circle', color: '#fff' }] }))).toMatch(/^puzzle\.cellSymbols\[0\]\.kind: /);
+        expect(readError(currentFile({ ends: ['1-1'] }))).toBe('puzzle.ends[0]: expected a vertex on the border of the grid');
+    });
+
+    it('rejects a line that jumps, crosses itself or crosses a broken edge', () => {
+        expect(readError(currentFile({ line: ['2-0', '0-0'] }))).toBe('puzzle.line[1]: expected a vertex next to the previous one');
+        expect(readError(currentFile({ line: ['2-0', '1-0', '2-0'] }))).toBe('puzzle.line[2]: the line crosses itself');
+        expect(readError(currentFile({ brokenEdges: ['v-1-0'], line: ['2-0', '1-0', '0-0'] }))).toBe('puzzle.line[1]: the line crosses a broken edge');
+    });
+
+    it('reports text that is not JSON', () => {
+        expect(() => parsePuzzleFileText('{')).toThrow('The file is not valid JSON');
+    });
+});
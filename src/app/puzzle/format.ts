@@ -0,0 +1,417 @@
+import { rotatePattern } from './geometry';
+import { edgeBetween, isBoundaryVertex, isDotInBounds, parseVertexId } from './line';
+import { createPuzzle, getCellMinis } from './puzzle';
+import { CellId, CellSymbol, DotId, EdgeId, Pattern, PlacedPiece, Puzzle, VertexId } from './types';
+
+// Versioned JSON file format for puzzles, documented in docs/puzzle-format.md.
+// Bump PUZZLE_FILE_VERSION whenever the shape changes and add a migration from
+// the previous version to MIGRATIONS, so older files keep loading.
+
+export const PUZZLE_FILE_FORMAT = 'witness-sandbox-puzzle';
+export const PUZZLE_FILE_VERSION = 7;
+export const PUZZLE_FILE_EXTENSION = '.witness.json';
+
+const MAX_GRID_SIZE = 10;
+
+
+// Puzzle content, with sets and maps flattened to arrays
+export interface PuzzleData {
+    rows: number;
+    cols: number;
+    walls: EdgeId[];
+    markedCells: CellId[];
+    cellSymbols: ({ cellId: CellId } & CellSymbol)[];
+    starts: VertexId[];
+    ends: VertexId[];
+    brokenEdges: EdgeId[];
+    dots: DotId[];
+    // Current piece placements and traced line, only kept when saving an attempt
+    pieces?: PlacedPiece[];
+    line?: VertexId[];
+}
+
+export interface PuzzleFileShape {
+    id: string;
+    pattern: Pattern;
+    color: string;
+}
+
+export interface PuzzleFile {
+    format: typeof PUZZLE_FILE_FORMAT;
+    version: typeof PUZZLE_FILE_VERSION;
+    puzzle: PuzzleData;
+    // Custom palette shapes the puzzle uses, so it opens the same elsewhere
+    customShapes: PuzzleFileShape[];
+}
+
+export class PuzzleFileError extends Error {
+    constructor(message: string, readonly path?: string) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = 'PuzzleFileError';
+    }
+}
+
+
+// Raw JSON objects: migrations only rely on what they check, and the current
+// version is validated field by field afterwards
+type RawObject = Record<string, unknown>;
+
+const isRawObject = (value: unknown): value is RawObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+
+// Migrations upgrade a raw document from the keyed version to the next one
+const MIGRATIONS: Record<number, (document: RawObject) => RawObject> = {
+    // Version 0: bare puzzle data as first stored by the puzzle library
+    0: (data) => ({ format: PUZZLE_FILE_FORMAT, version: 1, puzzle: data, customShapes: [] }),
+    // Version 1: clues had no rotation lock and the solver rotated them all freely
+    1: (file) => {
+        if (!isRawObject(file.puzzle) || !Array.isArray(file.puzzle.cellMinis)) {
+            return { ...file, version: 2 };
+        }
+        const cellMinis = file.puzzle.cellMinis.map((mini: unknown) => isRawObject(mini) ? { rotatable: true, ...mini } : mini);
+        return { ...file, version: 2, puzzle: { ...file.puzzle, cellMinis } };
+    },
+    // Version 2: same shape, without negative clues or pieces
+    2: (file) => ({ ...file, version: 3 }),
+    // Version 3: no start circles, end caps or broken edges
+    3: (file) => {
+        if (!isRawObject(file.puzzle)) {
+            return { ...file, version: 4 };
+        }
+        return { ...file, version: 4, puzzle: { starts: [], ends: [], brokenEdges: [], ...file.puzzle } };
+    },
+    // Version 4: no hexagon dots
+    4: (file) => {
+        if (!isRawObject(file.puzzle)) {
+            return { ...file, version: 5 };
+        }
+        return { ...file, version: 5, puzzle: { dots: [], ...file.puzzle } };
+    },
+    // Version 5: cells only held tetris clues, listed as cellMinis
+    5: (file) => {
+        if (!isRawObject(file.puzzle) || !Array.isArray(file.puzzle.cellMinis)) {
+            return { ...file, version: 6 };
+        }
+        const { cellMinis, ...rest } = file.puzzle;
+        const cellSymbols = cellMinis.map((mini: unknown) => isRawObject(mini) ? { kind: 'tetris', ...mini } : mini);
+        return { ...file, version: 6, puzzle: { ...rest, cellSymbols } };
+    },
+    // Version 6: same shape, without elimination marks
+    6: (file) => ({ ...file, version: 7 }),
+};
+
+
+const getVersion = (document: RawObject): number => {
+    if (document.format === PUZZLE_FILE_FORMAT) {
+        if (!Number.isInteger(document.version) || (document.version as number) < 1) {
+            throw new PuzzleFileError('expected a positive integer', 'version');
+        }
+        return document.version as number;
+    }
+    if ('rows' in document && 'cols' in document && !('format' in document)) {
+        return 0;
+    }
+    throw new PuzzleFileError('Not a Witness Sandbox puzzle file');
+};
+
+
+export const migratePuzzleFile = (document: unknown): RawObject => {
+    if (!isRawObject(document)) {
+        throw new PuzzleFileError('Not a Witness Sandbox puzzle file');
+    }
+    let version = getVersion(document);
+    if (version > PUZZLE_FILE_VERSION) {
+        throw new PuzzleFileError(`This file uses format version ${version}, but this sandbox only reads up to version ${PUZZLE_FILE_VERSION}`);
+    }
+
+    let migrated = document;
+    while (version < PUZZLE_FILE_VERSION) {
+        migrated = MIGRATIONS[version](migrated);
+        version++;
+    }
+    return migrated;
+};
+
+
+const expectObject = (value: unknown, path: string): RawObject => {
+    if (!isRawObject(value)) {
+        throw new PuzzleFileError('expected an object', path);
+    }
+    return value;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+    if (!Array.isArray(value)) {
+        throw new PuzzleFileError('expected an array', path);
+    }
+    return value;
+};
+
+const expectString = (value: unknown, path: string): string => {
+    if (typeof value !== 'string' || value.length === 0) {
+        throw new PuzzleFileError('expected a non-empty string', path);
+    }
+    return value;
+};
+
+const expectBoolean = (value: unknown, path: string): boolean => {
+    if (typeof value !== 'boolean') {
+        throw new PuzzleFileError('expected true or false', path);
+    }
+    return value;
+};
+
+// Optional flags are only written when set
+const expectOptionalFlag = (value: unknown, path: string): boolean =>
+    value === undefined ? false : expectBoolean(value, path);
+
+const expectInteger = (value: unknown, path: string, min: number, max: number): number => {
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+        throw new PuzzleFileError(`expected an integer between ${min} and ${max}`, path);
+    }
+    return value as number;
+};
+
+const expectPattern = (value: unknown, path: string): Pattern => {
+    const rows = expectArray(value, path);
+    if (rows.length === 0) {
+        throw new PuzzleFileError('expected at least one row', path);
+    }
+    const pattern = rows.map((row, i) => expectArray(row, `${path}[${i}]`).map((cell, j) => {
+        if (cell !== 0 && cell !== 1) {
+            throw new PuzzleFileError('expected 0 or 1', `${path}[${i}][${j}]`);
+        }
+        return cell;
+    }));
+    if (pattern.some(row => row.length !== pattern[0].length) || pattern[0].length === 0) {
+        throw new PuzzleFileError('expected rows of equal, non-zero length', path);
+    }
+    if (!pattern.some(row => row.includes(1))) {
+        throw new PuzzleFileError('expected at least one filled block', path);
+    }
+    return pattern;
+};
+
+const expectCellId = (value: unknown, path: string, rows: number, cols: number): CellId => {
+    const match = typeof value === 'string' ? /^(\d+)-(\d+)$/.exec(value) : null;
+    if (!match || Number(match[1]) >= rows || Number(match[2]) >= cols) {
+        throw new PuzzleFileError(`expected a cell id "row-col" inside the ${rows}×${cols} grid`, path);
+    }
+    return value as CellId;
+};
+
+const expectEdgeId = (value: unknown, path: string, rows: number, cols: number): EdgeId => {
+    const match = typeof value === 'string' ? /^([hv])-(\d+)-(\d+)$/.exec(value) : null;
+    const fits = match && (match[1] === 'h'
+        ? Number(match[2]) <= rows && Number(match[3]) < cols
+        : Number(match[2]) < rows && Number(match[3]) <= cols);
+    if (!fits) {
+        throw new PuzzleFileError(`expected an edge id "h-row-col" or "v-row-col" inside the ${rows}×${cols} grid`, path);
+    }
+    return value as EdgeId;
+};
+
+const expectVertexId = (value: unknown, path: string, rows: number, cols: number): VertexId => {
+    const match = typeof value === 'string' ? /^(\d+)-(\d+)$/.exec(value) : null;
+    if (!match || Number(match[1]) > rows || Number(match[2]) > cols) {
+        throw new PuzzleFileError(`expected a vertex id "row-col" between 0-0 and ${rows}-${cols}`, path);
+    }
+    return value as VertexId;
+};
+
+const expectDotId = (value: unknown, path: string, rows: number, cols: number): DotId => {
+    if (typeof value !== 'string' || !/^([hv]-)?\d+-\d+$/.test(value) || !isDotInBounds(rows, cols, value)) {
+        throw new PuzzleFileError(`expected a vertex id "row-col" or an edge id "h-row-col" / "v-row-col" inside the ${rows}×${cols} grid`, path);
+    }
+    return value;
+};
+
+
+const parsePuzzleData = (value: unknown, path: string): PuzzleData => {
+    const data = expectObject(value, path);
+    const rows = expectInteger(data.rows, `${path}.rows`, 1, MAX_GRID_SIZE);
+    const cols = expectInteger(data.cols, `${path}.cols`, 1, MAX_GRID_SIZE);
+
+    const walls = expectArray(data.walls, `${path}.walls`)
+        .map((wall, i) => expectEdgeId(wall, `${path}.walls[${i}]`, rows, cols));
+    const markedCells = expectArray(data.markedCells, `${path}.markedCells`)
+        .map((cellId, i) => expectCellId(cellId, `${path}.markedCells[${i}]`, rows, cols));
+    const cellSymbols = expectArray(data.cellSymbols, `${path}.cellSymbols`).map((entry, i): { cellId: CellId } & CellSymbol => {
+        const itemPath = `${path}.cellSymbols[${i}]`;
+        const symbol = expectObject(entry, itemPath);
+        const cellId = expectCellId(symbol.cellId, `${itemPath}.cellId`, rows, cols);
+        if (symbol.kind === 'elimination') {
+            return { cellId, kind: symbol.kind };
+        }
+        if (symbol.kind !== 'tetris' && symbol.kind !== 'square' && symbol.kind !== 'star') {
+            throw new PuzzleFileError('expected "tetris", "square", "star" or "elimination"', `${itemPath}.kind`);
+        }
+        const color = expectString(symbol.color, `${itemPath}.color`);
+        if (symbol.kind !== 'tetris') {
+            return { cellId, kind: symbol.kind, color };
+        }
+        return {
+            cellId,
+            kind: 'tetris',
+            pattern: expectPattern(symbol.pattern, `${itemPath}.pattern`),
+            color,
+            rotatable: expectBoolean(symbol.rotatable, `${itemPath}.rotatable`),
+            ...(expectOptionalFlag(symbol.negative, `${itemPath}.negative`) ? { negative: true } : {}),
+        };
+    });
+
+    const starts = expectArray(data.starts, `${path}.starts`)
+        .map((vertexId, i) => expectVertexId(vertexId, `${path}.starts[${i}]`, rows, cols));
+    const ends = expectArray(data.ends, `${path}.ends`).map((value, i) => {
+        const vertexId = expectVertexId(value, `${path}.ends[${i}]`, rows, cols);
+        if (!isBoundaryVertex(rows, cols, parseVertexId(vertexId))) {
+            throw new PuzzleFileError('expected a vertex on the border of the grid', `${path}.ends[${i}]`);
+        }
+        return vertexId;
+    });
+    const brokenEdges = expectArray(data.brokenEdges, `${path}.brokenEdges`)
+        .map((edgeId, i) => expectEdgeId(edgeId, `${path}.brokenEdges[${i}]`, rows, cols));
+
+    const dots = expectArray(data.dots, `${path}.dots`)
+        .map((dotId, i) => expectDotId(dotId, `${path}.dots[${i}]`, rows, cols));
+
+    const parsed: PuzzleData = { rows, cols, walls, markedCells, cellSymbols, starts, ends, brokenEdges, dots };
+    if (data.line !== undefined) {
+        const line = expectArray(data.line, `${path}.line`)
+            .map((vertexId, i) => expectVertexId(vertexId, `${path}.line[${i}]`, rows, cols));
+        const broken = new Set(brokenEdges);
+        line.forEach((vertexId, i) => {
+            if (line.indexOf(vertexId) !== i) {
+                throw new PuzzleFileError('the line crosses itself', `${path}.line[${i}]`);
+            }
+            const vertex = parseVertexId(vertexId);
+            const prev = parseVertexId(line[Math.max(0, i - 1)]);
+            if (i > 0 && Math.abs(vertex[0] - prev[0]) + Math.abs(vertex[1] - prev[1]) !== 1) {
+                throw new PuzzleFileError('expected a vertex next to the previous one', `${path}.line[${i}]`);
+            }
+            if (i > 0 && broken.has(edgeBetween(prev, vertex))) {
+                throw new PuzzleFileError('the line crosses a broken edge', `${path}.line[${i}]`);
+            }
+        });
+        parsed.line = line;
+    }
+    if (data.pieces !== undefined) {
+        parsed.pieces = expectArray(data.pieces, `${path}.pieces`).map((entry, i) => {
+            const itemPath = `${path}.pieces[${i}]`;
+            const piece = expectObject(entry, itemPath);
+            const pattern = expectPattern(piece.pattern, `${itemPath}.pattern`);
+            const row = expectInteger(piece.row, `${itemPath}.row`, 0, rows - 1);
+            const col = expectInteger(piece.col, `${itemPath}.col`, 0, cols - 1);
+            if (row + pattern.length > rows || col + pattern[0].length > cols) {
+                throw new PuzzleFileError('piece extends outside the grid', itemPath);
+            }
+            const rotation = expectInteger(piece.rotation, `${itemPath}.rotation`, 0, 270);
+            if (rotation % 90 !== 0) {
+                throw new PuzzleFileError('expected 0, 90, 180 or 270', `${itemPath}.rotation`);
+            }
+            return {
+                id: expectString(piece.id, `${itemPath}.id`),
+                type: expectString(piece.type, `${itemPath}.type`),
+                pattern,
+                originalPattern: expectPattern(piece.originalPattern, `${itemPath}.originalPattern`),
+                color: expectString(piece.color, `${itemPath}.color`),
+                ...(expectOptionalFlag(piece.negative, `${itemPath}.negative`) ? { negative: true } : {}),
+                row,
+                col,
+                rotation,
+            };
+        });
+    }
+    return parsed;
+};
+
+
+// Validates any supported version of a puzzle file, migrating it to the current one.
+// Throws a PuzzleFileError describing the first problem found.
+export const readPuzzleFile = (document: unknown): PuzzleFile => {
+    const file = migratePuzzleFile(document);
+    return {
+        format: PUZZLE_FILE_FORMAT,
+        version: PUZZLE_FILE_VERSION,
+        puzzle: parsePuzzleData(file.puzzle, 'puzzle'),
+        customShapes: expectArray(file.customShapes ?? [], 'customShapes').map((entry, i) => {
+            const shape = expectObject(entry, `customShapes[${i}]`);
+            return {
+                id: expectString(shape.id, `customShapes[${i}].id`),
+                pattern: expectPattern(shape.pattern, `customShapes[${i}].pattern`),
+                color: expectString(shape.color, `customShapes[${i}].color`),
+            };
+        }),
+    };
+};
+
+
+export const parsePuzzleFileText = (text: string): PuzzleFile => {
+    let document: unknown;
+    try {
+        document = JSON.parse(text);
+    } catch {
+        throw new PuzzleFileError('The file is not valid JSON');
+    }
+    return readPuzzleFile(document);
+};
+
+
+export const toPuzzleData = (puzzle: Puzzle, { includePieces = false }: { includePieces?: boolean } = {}): PuzzleData => ({
+    rows: puzzle.rows,
+    cols: puzzle.cols,
+    walls: [...puzzle.walls],
+    markedCells: [...puzzle.markedCells],
+    cellSymbols: [...puzzle.cellSymbols].map(([cellId, symbol]) => symbol.kind === 'tetris'
+        ? { cellId, kind: symbol.kind, pattern: symbol.pattern, color: symbol.color, rotatable: symbol.rotatable, ...(symbol.negative ? { negative: true } : {}) }
+        : symbol.kind === 'elimination' ? { cellId, kind: symbol.kind } : { cellId, kind: symbol.kind, color: symbol.color }),
+    starts: [...puzzle.starts],
+    ends: [...puzzle.ends],
+    brokenEdges: [...puzzle.brokenEdges],
+    dots: [...puzzle.dots],
+    ...(includePieces && puzzle.pieces.length > 0 ? { pieces: puzzle.pieces } : {}),
+    ...(includePieces && puzzle.line.length > 0 ? { line: puzzle.line } : {}),
+});
+
+
+export const fromPuzzleData = (data: PuzzleData): Puzzle => ({
+    ...createPuzzle(data.rows, data.cols),
+    walls: new Set(data.walls),
+    markedCells: new Set(data.markedCells),
+    cellSymbols: new Map(data.cellSymbols.map(({ cellId, ...symbol }) => [cellId, symbol as CellSymbol])),
+    starts: new Set(data.starts),
+    ends: new Set(data.ends),
+    brokenEdges: new Set(data.brokenEdges),
+    dots: new Set(data.dots),
+    pieces: data.pieces ?? [],
+    line: data.line ?? [],
+});
+
+
+// Custom shapes are referenced by placed pieces through their type, and by tetris
+// clues through their color and pattern (in any rotation)
+const isShapeUsed = (puzzle: Puzzle, shape: PuzzleFileShape): boolean => {
+    const keys = new Set<string>();
+    let pattern = shape.pattern;
+    for (let i = 0; i < 4; i++) {
+        keys.add(JSON.stringify(pattern));
+        pattern = rotatePattern(pattern);
+    }
+    return puzzle.pieces.some(piece => piece.type === shape.id)
+        || [...getCellMinis(puzzle).values()].some(mini => mini.color === shape.color && keys.has(JSON.stringify(mini.pattern)));
+};
+
+
+export const createPuzzleFile = (
+    puzzle: Puzzle,
+    customShapes: PuzzleFileShape[],
+    { includePieces = false }: { includePieces?: boolean } = {},
+): PuzzleFile => ({
+    format: PUZZLE_FILE_FORMAT,
+    version: PUZZLE_FILE_VERSION,
+    puzzle: toPuzzleData(puzzle, { includePieces }),
+    customShapes: customShapes
+        .filter(shape => isShapeUsed(puzzle, shape))
+        .map(({ id, pattern, color }) => ({ id, pattern, color })),
+});
@@ -0,0 +1,74 @@
+import { Pattern } from './types';
+
+
+export interface GridLayout {
+    cellSize: number;
+    gapSize: number;
+}
+
+
+export const parseCellId = (cellId: string): [number, number] => {
+    const [row, col] = cellId.split('-').map(Number);
+    return [row, col];
+};
+
+
+// Rotates a pattern 90° clockwise
+export const rotatePattern = (pattern: Pattern): Pattern => {
+    const rows = pattern.length;
+    const cols = pattern[0].length;
+    const rotated: Pattern = Array(cols).fill(null).map(() => Array(rows).fill(0));
+
+    for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+            rotated[j][rows - 1 - i] = pattern[i][j];
+        }
+    }
+
+    return rotated;
+};
+
+
+// Same key for every rotation of a pattern, to compare shapes regardless of orientation
+export const getShapeKey = (pattern: Pattern): string => {
+    const keys: string[] = [];
+    let current = pattern;
+    for (let i = 0; i < 4; i++) {
+        keys.push(JSON.stringify(current));
+        current = rotatePattern(current);
+    }
+    return keys.sort()[0];
+};
+
+
+export const countCells = (pattern: Pattern): number =>
+    pattern.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+
+
+export const isValidPattern = (pattern: unknown): pattern is Pattern =>
+    Array.isArray(pattern) && pattern.length > 0 && Array.isArray(pattern[0]) && pattern[0].length > 0;
+
+
+// Grid cells covered by a pattern whose top-left corner sits at (row, col)
+export const getPatternCells = (pattern: Pattern, row: number, col: number): [number, number][] => {
+    const cells: [number, number][] = [];
+    pattern.forEach((patternRow, i) => patternRow.forEach((value, j) => {
+        if (value) cells.push([row + i, col + j]);
+    }));
+    return cells;
+};
+
+
+// Cell whose top-left corner is nearest to a point, in pixels from the first cell's top-left corner
+export const getNearestCell = ({ cellSize, gapSize }: GridLayout, x: number, y: number): [number, number] =>
+    [Math.round(y / (cellSize + gapSize)), Math.round(x / (cellSize + gapSize))];
+
+
+// Top-left cell of a pattern dropped at (x, y), given where inside the pattern it was grabbed
+export const getDropOrigin = (layout: GridLayout, pattern: Pattern, x: number, y: number, pointerOffset: { x: number; y: number }): [number, number] => {
+    const step = layout.cellSize + layout.gapSize;
+    const blockIndexX = Math.min(Math.max(Math.floor(pointerOffset.x / step), 0), pattern[0].length - 1);
+    const blockIndexY = Math.min(Math.max(Math.floor(pointerOffset.y / step), 0), pattern.length - 1);
+    const [row, col] = getNearestCell(layout, x, y);
+    return [row - blockIndexY, col - blockIndexX];
+};
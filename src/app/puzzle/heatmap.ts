@@ -0,0 +1,59 @@
+import { getPatternCells, parseCellId, rotatePattern } from './geometry';
+import { isWallBetween } from './regions';
+import { CellId, EdgeId, Pattern } from './types';
+
+
+export interface PlacementHeatmap {
+    // Number of legal placements
+    placements: number;
+    // How many placements cover each cell
+    counts: Map<CellId, number>;
+    // Cells covered by every placement
+    forced: Set<CellId>;
+}
+
+
+// Distinct patterns a shape may be placed in: all four rotations, or just the one drawn
+const getAllowedPatterns = (pattern: Pattern, rotatable: boolean): Pattern[] => {
+    if (!rotatable) return [pattern];
+    const patterns = new Map<string, Pattern>();
+    let current = pattern;
+    for (let turn = 0; turn < 4; turn++) {
+        patterns.set(JSON.stringify(current), current);
+        current = rotatePattern(current);
+    }
+    return [...patterns.values()];
+};
+
+
+// Every way to lay a shape on the given cells without crossing a wall.
+// Each placement lists the cells it covers.
+export const getLegalPlacements = (pattern: Pattern, rotatable: boolean, cells: Set<CellId>, walls: Set<EdgeId>): CellId[][] => {
+    const placements: CellId[][] = [];
+    for (const allowed of getAllowedPatterns(pattern, rotatable)) {
+        const blocks = getPatternCells(allowed, 0, 0);
+        // Each allowed cell in turn holds the shape's first block
+        for (const cellId of cells) {
+            const [firstRow, firstCol] = parseCellId(cellId);
+            const row = firstRow - blocks[0][0];
+            const col = firstCol - blocks[0][1];
+            const covered = blocks.map(([i, j]) => [row + i, col + j]);
+            if (!covered.every(([r, c]) => cells.has(`${r}-${c}`))) continue;
+            const crossesWall = covered.some(([rowA, colA], a) => covered.some(([rowB, colB], b) =>
+                b > a && Math.abs(rowA - rowB) + Math.abs(colA - colB) === 1 && isWallBetween(walls, rowA, colA, rowB, colB)));
+            if (!crossesWall) placements.push(covered.map(([r, c]) => `${r}-${c}`));
+        }
+    }
+    return placements;
+};
+
+
+export const computePlacementHeatmap = (pattern: Pattern, rotatable: boolean, cells: Set<CellId>, walls: Set<EdgeId>): PlacementHeatmap => {
+    const placements = getLegalPlacements(pattern, rotatable, cells, walls);
+    const counts = new Map<CellId, number>();
+    placements.forEach(placement => placement.forEach(cellId => counts.set(cellId, (counts.get(cellId) ?? 0) + 1)));
+    const forced = new Set(placements.length > 0
+        ? [...counts].filter(([, count]) => count === placements.length).map(([cellId]) => cellId)
+        : []);
+    return { placements: placements.length, counts, forced };
+};
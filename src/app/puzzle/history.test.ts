@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { COALESCE_MS, canRedo, canUndo, createHistory, execute, redo, undo } from './history';
+import { createPuzzle } from './puzzle';
+
+
+describe('history', () => {
+    it('undoes and redoes a command', () => {
+        const start = createHistory(createPuzzle(2, 2));
+        const edited = execute(start, { type: 'toggleMarker', cellId: '0-0' }, 0);
+        expect(edited.present.markedCells.has('0-0')).toBe(true);
+
+        const undone = undo(edited);
+        expect(undone.present).toBe(start.present);
+        expect(canRedo(undone)).toBe(true);
+
+        const redone = redo(undone);
+        expect(redone.present.markedCells.has('0-0')).toBe(true);
+        expect(canUndo(redone)).toBe(true);
+    });
+
+    it('skips commands that change nothing', () => {
+        const start = createHistory(createPuzzle(2, 2));
+        expect(execute(start, { type: 'batch', commands: [] })).toBe(start);
+    });
+
+    it('merges quick wall toggles into one step', () => {
+        let history = createHistory(createPuzzle(2, 2));
+        history = execute(history, { type: 'toggleWall', edgeId: 'v-0-1' }, 0);
+        history = execute(history, { type: 'toggleWall', edgeId: 'v-1-1' }, COALESCE_MS / 2);
+        expect(history.past).toHaveLength(1);
+
+        history = execute(history, { type: 'toggleWall', edgeId: 'h-1-0' }, COALESCE_MS * 2);
+        expect(history.past).toHaveLength(2);
+        expect(undo(undo(history)).present.walls.size).toBe(0);
+    });
+
+    it('clears the redo stack on a new command', () => {
+        let history = createHistory(createPuzzle(2, 2));
+        history = undo(execute(history, { type: 'toggleMarker', cellId: '0-0' }, 0));
+        history = execute(history, { type: 'toggleMarker', cellId: '1-1' }, 0);
+        expect(canRedo(history)).toBe(false);
+    });
+});
@@ -0,0 +1,77 @@
+import { PuzzleCommand, applyCommand } from './commands';
+import { Puzzle } from './types';
+
+
+// Consecutive wall toggles or line steps closer together than this become a single undo step
+export const COALESCE_MS = 600;
+
+const MAX_ENTRIES = 200;
+
+interface HistoryEntry {
+    commands: PuzzleCommand[];
+    // Puzzle before the first command, restored on undo
+    before: Puzzle;
+    time: number;
+}
+
+export interface History {
+    past: HistoryEntry[];
+    present: Puzzle;
+    future: HistoryEntry[];
+}
+
+
+export const createHistory = (puzzle: Puzzle): History => ({ past: [], present: puzzle, future: [] });
+
+
+export const canUndo = (history: History): boolean => history.past.length > 0;
+
+export const canRedo = (history: History): boolean => history.future.length > 0;
+
+
+const COALESCED_COMMANDS: PuzzleCommand['type'][] = ['toggleWall', 'setLine'];
+
+const canCoalesce = (entry: HistoryEntry | undefined, command: PuzzleCommand, time: number): entry is HistoryEntry =>
+    !!entry
+    && COALESCED_COMMANDS.includes(command.type)
+    && entry.commands.every(c => c.type === command.type)
+    && time - entry.time < COALESCE_MS;
+
+
+// Applies a command and records it; commands that change nothing are not recorded
+export const execute = (history: History, command: PuzzleCommand, time: number = Date.now()): History => {
+    const present = applyCommand(history.present, command);
+    if (present === history.present) return history;
+
+    const last = history.past[history.past.length - 1];
+    if (canCoalesce(last, command, time)) {
+        const merged: HistoryEntry = { ...last, commands: [...last.commands, command], time };
+        return { past: [...history.past.slice(0, -1), merged], present, future: [] };
+    }
+
+    const entry: HistoryEntry = { commands: [command], before: history.present, time };
+    return { past: [...history.past, entry].slice(-MAX_ENTRIES), present, future: [] };
+};
+
+
+export const undo = (history: History): History => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return history;
+    return {
+        past: history.past.slice(0, -1),
+        present: entry.before,
+        future: [entry, ...history.future],
+    };
+};
+
+
+// Replays the undone commands on top of the restored puzzle
+export const redo = (history: History): History => {
+    const [entry, ...future] = history.future;
+    if (!entry) return history;
+    return {
+        past: [...history.past, { ...entry, before: history.present, time: 0 }],
+        present: entry.commands.reduce(applyCommand, history.present),
+        future,
+    };
+};
@@ -0,0 +1,96 @@
+import { parseCellId } from './geometry';
+import { DotId, EdgeId, Puzzle, VertexId } from './types';
+
+// The line is traced along lattice edges, from a start circle to an end cap,
+// and its edges are the walls that split the grid into regions.
+
+
+// Lattice vertex as [row, col], with 0 <= row <= rows and 0 <= col <= cols
+export type Vertex = [number, number];
+
+
+export const parseVertexId = (vertexId: VertexId): Vertex => parseCellId(vertexId);
+
+export const toVertexId = ([row, col]: Vertex): VertexId => `${row}-${col}`;
+
+
+export const isVertexInBounds = (rows: number, cols: number, [row, col]: Vertex): boolean =>
+    row >= 0 && row <= rows && col >= 0 && col <= cols;
+
+
+// End caps stick out of the grid, so they sit on its border
+export const isBoundaryVertex = (rows: number, cols: number, [row, col]: Vertex): boolean =>
+    isVertexInBounds(rows, cols, [row, col]) && (row === 0 || row === rows || col === 0 || col === cols);
+
+
+// Wall id (`h-r-c` / `v-r-c`) of the lattice edge joining two adjacent vertices
+export const edgeBetween = (a: Vertex, b: Vertex): EdgeId => {
+    if (a[0] === b[0]) {
+        return `h-${a[0]}-${Math.min(a[1], b[1])}`;
+    }
+    return `v-${Math.min(a[0], b[0])}-${a[1]}`;
+};
+
+
+// The two vertices an edge joins, top or left one first
+export const getEdgeVertices = (edgeId: EdgeId): [Vertex, Vertex] => {
+    const [kind, rowText, colText] = edgeId.split('-');
+    const from: Vertex = [Number(rowText), Number(colText)];
+    return [from, kind === 'h' ? [from[0], from[1] + 1] : [from[0] + 1, from[1]]];
+};
+
+
+export const isEdgeInBounds = (rows: number, cols: number, edgeId: EdgeId): boolean =>
+    getEdgeVertices(edgeId).every(vertex => isVertexInBounds(rows, cols, vertex));
+
+
+export const isEdgeDot = (dotId: DotId): boolean => dotId.startsWith('h-') || dotId.startsWith('v-');
+
+export const isDotInBounds = (rows: number, cols: number, dotId: DotId): boolean =>
+    isEdgeDot(dotId) ? isEdgeInBounds(rows, cols, dotId) : isVertexInBounds(rows, cols, parseVertexId(dotId));
+
+
+export const getLineEdges = (line: VertexId[]): EdgeId[] =>
+    line.slice(1).map((vertexId, i) => edgeBetween(parseVertexId(line[i]), parseVertexId(vertexId)));
+
+
+const areAdjacent = ([rowA, colA]: Vertex, [rowB, colB]: Vertex): boolean =>
+    Math.abs(rowA - rowB) + Math.abs(colA - colB) === 1;
+
+
+// Moves the head of the line onto an adjacent vertex: stepping back onto the previous
+// vertex backtracks, any other vertex already on the line, or across a broken edge, is refused (null)
+export const stepLine = (puzzle: Puzzle, line: VertexId[], vertex: Vertex): VertexId[] | null => {
+    const head = line[line.length - 1];
+    if (!head || !isVertexInBounds(puzzle.rows, puzzle.cols, vertex) || !areAdjacent(parseVertexId(head), vertex)) return null;
+    const vertexId = toVertexId(vertex);
+    if (line[line.length - 2] === vertexId) return line.slice(0, -1);
+    if (line.includes(vertexId) || puzzle.brokenEdges.has(edgeBetween(parseVertexId(head), vertex))) return null;
+    return [...line, vertexId];
+};
+
+
+// Adjacent vertices one step from the head towards a target, the axis it is furthest on first
+export const getStepsTowards = ([row, col]: Vertex, [targetRow, targetCol]: Vertex): Vertex[] => {
+    const dr = targetRow - row;
+    const dc = targetCol - col;
+    const vertical: Vertex[] = dr !== 0 ? [[row + Math.sign(dr), col]] : [];
+    const horizontal: Vertex[] = dc !== 0 ? [[row, col + Math.sign(dc)]] : [];
+    return Math.abs(dr) >= Math.abs(dc) ? [...vertical, ...horizontal] : [...horizontal, ...vertical];
+};
+
+
+// Dots that neither the line nor the walls run through. Without a line, the walls
+// stand for its path, so a vertex dot counts as covered by any wall ending on it.
+export const getMissedDots = (puzzle: Puzzle): DotId[] => {
+    const vertices = new Set(puzzle.line);
+    puzzle.walls.forEach(edgeId => getEdgeVertices(edgeId).forEach(vertex => vertices.add(toVertexId(vertex))));
+    return [...puzzle.dots].filter(dotId => isEdgeDot(dotId) ? !puzzle.walls.has(dotId) : !vertices.has(dotId));
+};
+
+
+// A finished line runs from a start circle to an end cap
+export const isLineComplete = (puzzle: Puzzle): boolean =>
+    puzzle.line.length > 1
+    && puzzle.starts.has(puzzle.line[0])
+    && puzzle.ends.has(puzzle.line[puzzle.line.length - 1]);
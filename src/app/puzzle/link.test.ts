@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { PuzzleFile, createPuzzleFile } from './format';
+import { LINK_HASH_PREFIX, LINK_VERSION, MAX_LINK_HASH_LENGTH, decodePuzzleLink, encodePuzzleLink, isPuzzleLink } from './link';
+import { createPuzzle } from './puzzle';
+import { Puzzle } from './types';
+
+
+// Packs [value, width] pairs into a link hash, like the encoder's bit writer
+const packLink = (fields: [number, number][]): string => {
+    const bits = fields.flatMap(([value, width]) => Array.from({ length: width }, (_, i) => (value >> (width - 1 - i)) & 1));
+    const bytes = Array.from({ length: Math.ceil(bits.length / 8) }, (_, i) =>
+        bits.slice(i * 8, i * 8 + 8).reduce((byte, bit, j) => byte | (bit << (7 - j)), 0));
+    return LINK_HASH_PREFIX + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Walls and symbols are listed in the order links store them, so decoded files compare equal
+const samplePuzzle = (): Puzzle => ({
+    ...createPuzzle(3, 4),
+    walls: new Set(['h-1-0', 'h-3-3', 'v-2-4']),
+    markedCells: new Set(['2-1']),
+    cellSymbols: new Map([
+        ['0-0', { kind: 'tetris', pattern: [[1, 1], [1, 0]], color: '#F5BE02', rotatable: true }],
+        ['0-1', { kind: 'tetris', pattern: [[1]], color: '#00f0f0', rotatable: false, negative: true }],
+        ['1-2', { kind: 'square', color: '#000000' }],
+        ['2-3', { kind: 'star', color: '#F5BE02' }],
+        ['2-0', { kind: 'elimination' }],
+    ]),
+    starts: new Set(['3-0']),
+    ends: new Set(['0-4']),
+    brokenEdges: new Set(['v-1-2']),
+    dots: new Set(['2-2', 'h-0-1']),
+});
+
+
+describe('puzzle links', () => {
+    it('round-trips every kind of content', () => {
+        const file = createPuzzleFile(samplePuzzle(), []);
+        const hash = encodePuzzleLink(file);
+        expect(isPuzzleLink(hash)).toBe(true);
+        expect(decodePuzzleLink(hash)).toEqual(file);
+    });
+
+    it('round-trips an attempt with pieces, a line and custom shapes', () => {
+        const puzzle: Puzzle = {
+            ...samplePuzzle(),
+            pieces: [{ id: 'piece-1', type: 'shape-1', pattern: [[1], [1], [1]], originalPattern: [[1, 1, 1]], color: '#ff69b4', row: 0, col: 3, rotation: 90 }],
+            line: ['3-0', '2-0', '2-1'],
+        };
+        const file = createPuzzleFile(puzzle, [{ id: 'shape-1', pattern: [[1, 1, 1]], color: '#ff69b4' }], { includePieces: true });
+        const decoded: PuzzleFile = decodePuzzleLink(encodePuzzleLink(file));
+        // Piece ids are recreated on decode
+        expect(decoded.puzzle.pieces).toMatchObject([{ ...file.puzzle.pieces![0], id: expect.any(String) }]);
+        expect({ ...decoded, puzzle: { ...decoded.puzzle, pieces: file.puzzle.pieces } }).toEqual(file);
+    });
+
+    it('reads version 1 links, whose clues were all rotatable', () => {
+        const color = [...'#f00'].map(char => [char.charCodeAt(0), 8] as [number, number]);
+        const hash = packLink([
+            [1, 8], [0, 4], [0, 4],
+            // Walls and the marker of a 1×1 grid
+            [0, 4], [0, 1],
+            [1, 8], [color.length, 8], ...color,
+            // One clue: row, column, color index and a 1×1 pattern
+            [1, 8], [0, 4], [0, 4], [0, 8], [0, 4], [0, 4], [1, 1],
+            // No pieces, no custom shapes
+            [0, 8], [0, 8],
+        ]);
+        expect(decodePuzzleLink(hash).puzzle.cellSymbols).toEqual([{ cellId: '0-0', kind: 'tetris', pattern: [[1]], color: '#f00', rotatable: true }]);
+    });
+
+    it('rejects newer, truncated and oversized links', () => {
+        expect(() => decodePuzzleLink(packLink([[LINK_VERSION + 1, 8]]))).toThrow(/only reads up to version/);
+        expect(() => decodePuzzleLink(packLink([[LINK_VERSION, 8], [1, 4]]))).toThrow('The link is incomplete');
+        expect(() => decodePuzzleLink(LINK_HASH_PREFIX + 'A'.repeat(MAX_LINK_HASH_LENGTH))).toThrow(/too long/);
+        expect(() => decodePuzzleLink(`${LINK_HASH_PREFIX}not*base64`)).toThrow(/base64url/);
+    });
+});
@@ -0,0 +1,333 @@
+import { PUZZLE_FILE_FORMAT, PUZZLE_FILE_VERSION, PuzzleData, PuzzleFile, PuzzleFileError, readPuzzleFile } from './format';
+import { parseCellId, rotatePattern } from './geometry';
+import { Pattern } from './types';
+
+// Compact puzzle links: a puzzle file packed into bits and written as base64url
+// in the URL hash (`#p=...`). See docs/puzzle-format.md for the bit layout.
+
+export const LINK_HASH_PREFIX = '#p=';
+export const LINK_VERSION = 7;
+
+// Longer hashes are refused: some browsers and chat apps truncate long URLs
+export const MAX_LINK_HASH_LENGTH = 2000;
+
+const MAX_PATTERN_SIZE = 16;
+
+
+class BitWriter {
+    private bytes: number[] = [];
+    private bitCount = 0;
+
+    write(value: number, width: number) {
+        for (let bit = width - 1; bit >= 0; bit--) {
+            if (this.bitCount % 8 === 0) this.bytes.push(0);
+            if ((value >> bit) & 1) {
+                this.bytes[this.bytes.length - 1] |= 0x80 >> (this.bitCount % 8);
+            }
+            this.bitCount++;
+        }
+    }
+
+    toBytes(): number[] {
+        return this.bytes;
+    }
+}
+
+
+class BitReader {
+    private bitCount = 0;
+
+    constructor(private bytes: number[]) { }
+
+    read(width: number): number {
+        let value = 0;
+        for (let i = 0; i < width; i++) {
+            const byte = this.bytes[this.bitCount >> 3];
+            if (byte === undefined) {
+                throw new PuzzleFileError('The link is incomplete');
+            }
+            value = (value << 1) | ((byte >> (7 - (this.bitCount % 8))) & 1);
+            this.bitCount++;
+        }
+        return value;
+    }
+}
+
+
+const toBase64Url = (bytes: number[]): string =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): number[] => {
+    if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) {
+        throw new PuzzleFileError('The link is not valid base64url');
+    }
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Array.from(binary, char => char.charCodeAt(0));
+};
+
+
+const writePattern = (writer: BitWriter, pattern: Pattern) => {
+    if (pattern.length > MAX_PATTERN_SIZE || pattern[0].length > MAX_PATTERN_SIZE) {
+        throw new PuzzleFileError(`Shapes larger than ${MAX_PATTERN_SIZE}×${MAX_PATTERN_SIZE} cannot be shared as a link`);
+    }
+    writer.write(pattern.length - 1, 4);
+    writer.write(pattern[0].length - 1, 4);
+    pattern.forEach(row => row.forEach(cell => writer.write(cell ? 1 : 0, 1)));
+};
+
+const readPattern = (reader: BitReader): Pattern => {
+    const height = reader.read(4) + 1;
+    const width = reader.read(4) + 1;
+    return Array.from({ length: height }, () => Array.from({ length: width }, () => reader.read(1)));
+};
+
+
+// Colors and piece types are written once and referenced by index
+const createStringTable = (file: PuzzleFile): string[] => {
+    const { puzzle, customShapes } = file;
+    return [...new Set([
+        ...puzzle.cellSymbols.flatMap(symbol => symbol.kind === 'elimination' ? [] : [symbol.color]),
+        ...(puzzle.pieces ?? []).flatMap(piece => [piece.type, piece.color]),
+        ...customShapes.flatMap(shape => [shape.id, shape.color]),
+    ])];
+};
+
+
+export const encodePuzzleLink = (file: PuzzleFile): string => {
+    const { puzzle, customShapes } = file;
+    const pieces = puzzle.pieces ?? [];
+    const strings = createStringTable(file);
+    // Tetris clues keep their place in the layout, squares, stars and elimination marks come last
+    const clues = puzzle.cellSymbols.flatMap(symbol => symbol.kind === 'tetris' ? [symbol] : []);
+    const colored = puzzle.cellSymbols.flatMap(symbol => symbol.kind === 'square' || symbol.kind === 'star' ? [symbol] : []);
+    const eliminations = puzzle.cellSymbols.filter(symbol => symbol.kind === 'elimination');
+    const encoder = new TextEncoder();
+    const writer = new BitWriter();
+    const writeCount = (count: number, what: string) => {
+        if (count > 255) throw new PuzzleFileError(`Too many ${what} to share as a link`);
+        writer.write(count, 8);
+    };
+
+    writer.write(LINK_VERSION, 8);
+    writer.write(puzzle.rows - 1, 4);
+    writer.write(puzzle.cols - 1, 4);
+
+    // One bit per edge (horizontal edges row by row, then vertical ones), then per cell
+    const walls = new Set(puzzle.walls);
+    for (let r = 0; r <= puzzle.rows; r++) {
+        for (let c = 0; c < puzzle.cols; c++) writer.write(walls.has(`h-${r}-${c}`) ? 1 : 0, 1);
+    }
+    for (let r = 0; r < puzzle.rows; r++) {
+        for (let c = 0; c <= puzzle.cols; c++) writer.write(walls.has(`v-${r}-${c}`) ? 1 : 0, 1);
+    }
+    const markedCells = new Set(puzzle.markedCells);
+    for (let r = 0; r < puzzle.rows; r++) {
+        for (let c = 0; c < puzzle.cols; c++) writer.write(markedCells.has(`${r}-${c}`) ? 1 : 0, 1);
+    }
+
+    writeCount(strings.length, 'colors and shapes');
+    for (const text of strings) {
+        const bytes = encoder.encode(text);
+        writeCount(bytes.length, 'characters in a color or shape name');
+        bytes.forEach(byte => writer.write(byte, 8));
+    }
+
+    writeCount(clues.length, 'clues');
+    for (const mini of clues) {
+        const [row, col] = parseCellId(mini.cellId);
+        writer.write(row, 4);
+        writer.write(col, 4);
+        writer.write(strings.indexOf(mini.color), 8);
+        writer.write(mini.rotatable ? 1 : 0, 1);
+        writer.write(mini.negative ? 1 : 0, 1);
+        writePattern(writer, mini.pattern);
+    }
+
+    // Pieces are stored unrotated with their rotation; ids are recreated on decode
+    writeCount(pieces.length, 'pieces');
+    for (const piece of pieces) {
+        writer.write(piece.row, 4);
+        writer.write(piece.col, 4);
+        writer.write(strings.indexOf(piece.type), 8);
+        writer.write(strings.indexOf(piece.color), 8);
+        writer.write(piece.rotation / 90, 2);
+        writer.write(piece.negative ? 1 : 0, 1);
+        writePattern(writer, piece.originalPattern);
+    }
+
+    writeCount(customShapes.length, 'custom shapes');
+    for (const shape of customShapes) {
+        writer.write(strings.indexOf(shape.id), 8);
+        writer.write(strings.indexOf(shape.color), 8);
+        writePattern(writer, shape.pattern);
+    }
+
+    // Line elements, then the traced line of an attempt, as row and column pairs
+    const writeVertices = (vertices: string[], what: string) => {
+        writeCount(vertices.length, what);
+        for (const vertexId of vertices) {
+            const [row, col] = parseCellId(vertexId);
+            writer.write(row, 4);
+            writer.write(col, 4);
+        }
+    };
+    writeVertices(puzzle.starts, 'start circles');
+    writeVertices(puzzle.ends, 'end caps');
+    writeCount(puzzle.brokenEdges.length, 'broken edges');
+    for (const edgeId of puzzle.brokenEdges) {
+        const [kind, row, col] = edgeId.split('-');
+        writer.write(kind === 'h' ? 0 : 1, 1);
+        writer.write(Number(row), 4);
+        writer.write(Number(col), 4);
+    }
+    writeVertices(puzzle.line ?? [], 'line vertices');
+
+    // Dots: 0 then a vertex, or 1 then an edge like the broken ones
+    writeCount(puzzle.dots.length, 'dots');
+    for (const dotId of puzzle.dots) {
+        const parts = dotId.split('-');
+        const edge = parts.length === 3;
+        writer.write(edge ? 1 : 0, 1);
+        if (edge) writer.write(parts[0] === 'h' ? 0 : 1, 1);
+        const [row, col] = parts.slice(-2).map(Number);
+        writer.write(row, 4);
+        writer.write(col, 4);
+    }
+
+    // Squares (0) and stars (1) with their color
+    writeCount(colored.length, 'squares and stars');
+    for (const symbol of colored) {
+        const [row, col] = parseCellId(symbol.cellId);
+        writer.write(row, 4);
+        writer.write(col, 4);
+        writer.write(symbol.kind === 'star' ? 1 : 0, 1);
+        writer.write(strings.indexOf(symbol.color), 8);
+    }
+    writeCount(eliminations.length, 'elimination marks');
+    for (const symbol of eliminations) {
+        const [row, col] = parseCellId(symbol.cellId);
+        writer.write(row, 4);
+        writer.write(col, 4);
+    }
+
+    const hash = LINK_HASH_PREFIX + toBase64Url(writer.toBytes());
+    if (hash.length > MAX_LINK_HASH_LENGTH) {
+        throw new PuzzleFileError('This puzzle is too large to share as a link, export it to a file instead');
+    }
+    return hash;
+};
+
+
+export const isPuzzleLink = (hash: string): boolean => hash.startsWith(LINK_HASH_PREFIX);
+
+
+// Decodes a `#p=...` hash, validating it like an imported file.
+// Throws a PuzzleFileError when the link is malformed, oversized or from a newer version.
+export const decodePuzzleLink = (hash: string): PuzzleFile => {
+    if (!isPuzzleLink(hash)) {
+        throw new PuzzleFileError('Not a puzzle link');
+    }
+    if (hash.length > MAX_LINK_HASH_LENGTH) {
+        throw new PuzzleFileError('The link is too long to be a puzzle link');
+    }
+
+    const reader = new BitReader(fromBase64Url(hash.slice(LINK_HASH_PREFIX.length)));
+    const version = reader.read(8);
+    if (version < 1 || version > LINK_VERSION) {
+        throw new PuzzleFileError(version > LINK_VERSION
+            ? `This link uses version ${version}, but this sandbox only reads up to version ${LINK_VERSION}`
+            : 'The link is not a puzzle link');
+    }
+
+    const rows = reader.read(4) + 1;
+    const cols = reader.read(4) + 1;
+    const data: PuzzleData = { rows, cols, walls: [], markedCells: [], cellSymbols: [], starts: [], ends: [], brokenEdges: [], dots: [] };
+
+    for (let r = 0; r <= rows; r++) {
+        for (let c = 0; c < cols; c++) if (reader.read(1)) data.walls.push(`h-${r}-${c}`);
+    }
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c <= cols; c++) if (reader.read(1)) data.walls.push(`v-${r}-${c}`);
+    }
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) if (reader.read(1)) data.markedCells.push(`${r}-${c}`);
+    }
+
+    const decoder = new TextDecoder();
+    const strings = Array.from({ length: reader.read(8) }, () =>
+        decoder.decode(new Uint8Array(Array.from({ length: reader.read(8) }, () => reader.read(8)))));
+    const readString = (): string => {
+        const text = strings[reader.read(8)];
+        if (text === undefined) throw new PuzzleFileError('The link refers to a missing color or shape');
+        return text;
+    };
+
+    const clueCount = reader.read(8);
+    for (let i = 0; i < clueCount; i++) {
+        const cellId = `${reader.read(4)}-${reader.read(4)}`;
+        const color = readString();
+        // Version 1 links predate rotation-locked clues, which were all rotatable then
+        const rotatable = version >= 2 ? reader.read(1) === 1 : true;
+        const negative = version >= 3 && reader.read(1) === 1;
+        data.cellSymbols.push({ cellId, kind: 'tetris', color, rotatable, ...(negative ? { negative } : {}), pattern: readPattern(reader) });
+    }
+
+    const pieceCount = reader.read(8);
+    if (pieceCount > 0) {
+        const now = Date.now();
+        data.pieces = Array.from({ length: pieceCount }, (_, index) => {
+            const row = reader.read(4);
+            const col = reader.read(4);
+            const type = readString();
+            const color = readString();
+            const rotation = reader.read(2) * 90;
+            const negative = version >= 3 && reader.read(1) === 1;
+            const originalPattern = readPattern(reader);
+            let pattern = originalPattern;
+            for (let turn = 0; turn < rotation / 90; turn++) pattern = rotatePattern(pattern);
+            return { id: `piece-${now}-${index}`, type, pattern, originalPattern, color, ...(negative ? { negative } : {}), row, col, rotation };
+        });
+    }
+
+    const customShapes = Array.from({ length: reader.read(8) }, () => ({
+        id: readString(),
+        color: readString(),
+        pattern: readPattern(reader),
+    }));
+
+    // Version 4 added line elements
+    if (version >= 4) {
+        const readVertices = () => Array.from({ length: reader.read(8) }, () => `${reader.read(4)}-${reader.read(4)}`);
+        data.starts = readVertices();
+        data.ends = readVertices();
+        data.brokenEdges = Array.from({ length: reader.read(8) }, () => `${reader.read(1) ? 'v' : 'h'}-${reader.read(4)}-${reader.read(4)}`);
+        const line = readVertices();
+        if (line.length > 0) data.line = line;
+    }
+    // Version 5 added dots
+    if (version >= 5) {
+        data.dots = Array.from({ length: reader.read(8) }, () => {
+            const kind = reader.read(1) ? (reader.read(1) ? 'v-' : 'h-') : '';
+            return `${kind}${reader.read(4)}-${reader.read(4)}`;
+        });
+    }
+    // Version 6 added squares and stars
+    if (version >= 6) {
+        const symbolCount = reader.read(8);
+        for (let i = 0; i < symbolCount; i++) {
+            const cellId = `${reader.read(4)}-${reader.read(4)}`;
+            const kind = reader.read(1) ? 'star' : 'square';
+            data.cellSymbols.push({ cellId, kind, color: readString() });
+        }
+    }
+    // Version 7 added elimination marks
+    if (version >= 7) {
+        const markCount = reader.read(8);
+        for (let i = 0; i < markCount; i++) {
+            data.cellSymbols.push({ cellId: `${reader.read(4)}-${reader.read(4)}`, kind: 'elimination' });
+        }
+    }
+
+    // Reuse the file validation for bounds, empty patterns and the like
+    return readPuzzleFile({ format: PUZZLE_FILE_FORMAT, version: PUZZLE_FILE_VERSION, puzzle: data, customShapes });
+};
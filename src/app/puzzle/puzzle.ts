@@ -0,0 +1,230 @@
+import { getPatternCells, rotatePattern } from './geometry';
+import { getLineEdges, isBoundaryVertex, isDotInBounds, isVertexInBounds, parseVertexId } from './line';
+import { CellId, CellSymbol, ClueMini, DotId, EdgeId, Pattern, PlacedPiece, Puzzle, VertexId } from './types';
+
+// Every operation returns a new Puzzle and leaves its input untouched, so the
+// same functions back React state and headless tooling.
+
+
+export const createPuzzle = (rows: number, cols: number): Puzzle => ({
+    rows,
+    cols,
+    pieces: [],
+    walls: new Set(),
+    markedCells: new Set(),
+    cellSymbols: new Map(),
+    starts: new Set(),
+    ends: new Set(),
+    brokenEdges: new Set(),
+    dots: new Set(),
+    line: [],
+});
+
+
+export const isInBounds = (puzzle: Puzzle, row: number, col: number): boolean =>
+    row >= 0 && row < puzzle.rows && col >= 0 && col < puzzle.cols;
+
+
+export const fitsInBounds = (puzzle: Puzzle, pattern: Pattern, row: number, col: number): boolean =>
+    getPatternCells(pattern, row, col).every(([r, c]) => isInBounds(puzzle, r, c));
+
+
+// Adds a piece on top of the others, replacing any piece with the same id.
+// Out-of-bounds placements are ignored; overlaps are allowed.
+export const placePiece = (puzzle: Puzzle, piece: PlacedPiece): Puzzle => {
+    if (!fitsInBounds(puzzle, piece.pattern, piece.row, piece.col)) return puzzle;
+    return {
+        ...puzzle,
+        pieces: [...puzzle.pieces.filter(p => p.id !== piece.id), piece],
+    };
+};
+
+
+export const movePiece = (puzzle: Puzzle, id: string, row: number, col: number): Puzzle => {
+    const piece = puzzle.pieces.find(p => p.id === id);
+    if (!piece) return puzzle;
+    return placePiece(puzzle, { ...piece, row, col });
+};
+
+
+// Rotates a placed piece 90° clockwise around its top-left corner
+export const rotatePiece = (puzzle: Puzzle, id: string): Puzzle => ({
+    ...puzzle,
+    pieces: puzzle.pieces.map(p => p.id === id
+        ? { ...p, pattern: rotatePattern(p.pattern), rotation: (p.rotation + 90) % 360 }
+        : p),
+});
+
+
+export const removePiece = (puzzle: Puzzle, id: string): Puzzle => ({
+    ...puzzle,
+    pieces: puzzle.pieces.filter(p => p.id !== id),
+});
+
+
+export const setPieces = (puzzle: Puzzle, pieces: PlacedPiece[]): Puzzle => ({ ...puzzle, pieces });
+
+
+// Editing walls by hand leaves the traced line behind, so it is dropped.
+// Broken edges can't hold a wall.
+export const toggleWall = (puzzle: Puzzle, edgeId: EdgeId): Puzzle => {
+    if (puzzle.brokenEdges.has(edgeId)) return puzzle;
+    const walls = new Set(puzzle.walls);
+    if (walls.has(edgeId)) {
+        walls.delete(edgeId);
+    }
+    else {
+        walls.add(edgeId);
+    }
+    return { ...puzzle, walls, line: [] };
+};
+
+
+export const setWalls = (puzzle: Puzzle, walls: Iterable<EdgeId>): Puzzle => ({ ...puzzle, walls: new Set(walls), line: [] });
+
+
+// Start circles may sit on any vertex
+export const toggleStart = (puzzle: Puzzle, vertexId: VertexId): Puzzle => {
+    if (!isVertexInBounds(puzzle.rows, puzzle.cols, parseVertexId(vertexId))) return puzzle;
+    const starts = new Set(puzzle.starts);
+    if (!starts.delete(vertexId)) starts.add(vertexId);
+    return { ...puzzle, starts };
+};
+
+
+// End caps only sit on border vertices; others are ignored
+export const toggleEnd = (puzzle: Puzzle, vertexId: VertexId): Puzzle => {
+    if (!isBoundaryVertex(puzzle.rows, puzzle.cols, parseVertexId(vertexId))) return puzzle;
+    const ends = new Set(puzzle.ends);
+    if (!ends.delete(vertexId)) ends.add(vertexId);
+    return { ...puzzle, ends };
+};
+
+
+export const toggleDot = (puzzle: Puzzle, dotId: DotId): Puzzle => {
+    if (!isDotInBounds(puzzle.rows, puzzle.cols, dotId)) return puzzle;
+    const dots = new Set(puzzle.dots);
+    if (!dots.delete(dotId)) dots.add(dotId);
+    return { ...puzzle, dots };
+};
+
+
+// Replaces the line, and the walls with its edges
+export const setLine = (puzzle: Puzzle, line: VertexId[]): Puzzle => ({
+    ...puzzle,
+    line: [...line],
+    walls: new Set(getLineEdges(line)),
+});
+
+
+// A broken edge can't hold a wall, and a line running through it is dropped
+export const toggleBrokenEdge = (puzzle: Puzzle, edgeId: EdgeId): Puzzle => {
+    const brokenEdges = new Set(puzzle.brokenEdges);
+    if (brokenEdges.has(edgeId)) {
+        brokenEdges.delete(edgeId);
+        return { ...puzzle, brokenEdges };
+    }
+
+    brokenEdges.add(edgeId);
+    const walls = new Set(puzzle.walls);
+    walls.delete(edgeId);
+    const line = getLineEdges(puzzle.line).includes(edgeId) ? [] : puzzle.line;
+    return { ...puzzle, brokenEdges, walls, line };
+};
+
+
+// Puts a symbol in a cell (replacing its white marker), or removes it when symbol is null
+export const setSymbol = (puzzle: Puzzle, cellId: CellId, symbol: CellSymbol | null): Puzzle => {
+    const cellSymbols = new Map(puzzle.cellSymbols);
+    if (!symbol) {
+        cellSymbols.delete(cellId);
+        return { ...puzzle, cellSymbols };
+    }
+
+    // Deep-clone the pattern so later rotations of the source don't leak in
+    cellSymbols.set(cellId, symbol.kind === 'tetris' ? { ...symbol, pattern: symbol.pattern.map(r => [...r]) } : { ...symbol });
+    const markedCells = new Set(puzzle.markedCells);
+    markedCells.delete(cellId);
+    return { ...puzzle, cellSymbols, markedCells };
+};
+
+
+// Puts a tetris clue in a cell, or removes the cell's symbol when mini is null
+export const setClue = (puzzle: Puzzle, cellId: CellId, mini: ClueMini | null): Puzzle =>
+    setSymbol(puzzle, cellId, mini && { kind: 'tetris', ...mini });
+
+
+// Switches a clue between upright (rotation-locked) and tilted (rotatable)
+export const toggleClueRotatable = (puzzle: Puzzle, cellId: CellId): Puzzle => {
+    const symbol = puzzle.cellSymbols.get(cellId);
+    if (symbol?.kind !== 'tetris') return puzzle;
+    const cellSymbols = new Map(puzzle.cellSymbols);
+    cellSymbols.set(cellId, { ...symbol, rotatable: !symbol.rotatable });
+    return { ...puzzle, cellSymbols };
+};
+
+
+// Clicking a cell in edition mode first removes its symbol, otherwise toggles the white marker
+export const toggleMarker = (puzzle: Puzzle, cellId: CellId): Puzzle => {
+    if (puzzle.cellSymbols.has(cellId)) {
+        return setSymbol(puzzle, cellId, null);
+    }
+
+    const markedCells = new Set(puzzle.markedCells);
+    if (markedCells.has(cellId)) {
+        markedCells.delete(cellId);
+    }
+    else {
+        markedCells.add(cellId);
+    }
+    return { ...puzzle, markedCells };
+};
+
+
+// Tetris clues alone, as the tiling solvers take them. Cached per symbol map, so
+// the result keeps its identity for as long as the symbols don't change.
+const cellMinisCache = new WeakMap<Map<CellId, CellSymbol>, Map<CellId, ClueMini>>();
+
+export const getCellMinis = (puzzle: Puzzle): Map<CellId, ClueMini> => {
+    let cellMinis = cellMinisCache.get(puzzle.cellSymbols);
+    if (!cellMinis) {
+        cellMinis = new Map();
+        for (const [cellId, symbol] of puzzle.cellSymbols) {
+            if (symbol.kind === 'tetris') cellMinis.set(cellId, symbol);
+        }
+        cellMinisCache.set(puzzle.cellSymbols, cellMinis);
+    }
+    return cellMinis;
+};
+
+
+// Elimination marks may cancel tetris clues, which the tiling solvers can't tell
+export const hasEliminationMarks = (puzzle: Puzzle): boolean =>
+    [...puzzle.cellSymbols.values()].some(symbol => symbol.kind === 'elimination');
+
+
+export const clearPuzzle = (puzzle: Puzzle): Puzzle => createPuzzle(puzzle.rows, puzzle.cols);
+
+
+// Topmost piece covering a cell, if any
+export const getPieceAt = (puzzle: Puzzle, row: number, col: number): PlacedPiece | null => {
+    for (let i = puzzle.pieces.length - 1; i >= 0; i--) {
+        const piece = puzzle.pieces[i];
+        if (getPatternCells(piece.pattern, piece.row, piece.col).some(([r, c]) => r === row && c === col)) {
+            return piece;
+        }
+    }
+    return null;
+};
+
+
+// Color of the topmost positive piece on a cell; negative pieces are drawn as outlines instead
+export const getCellColor = (puzzle: Puzzle, row: number, col: number): string | null => {
+    for (let i = puzzle.pieces.length - 1; i >= 0; i--) {
+        const piece = puzzle.pieces[i];
+        if (!piece.negative && getPatternCells(piece.pattern, piece.row, piece.col).some(([r, c]) => r === row && c === col)) {
+            return piece.color;
+        }
+    }
+    return null;
+};
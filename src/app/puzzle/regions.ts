@@ -0,0 +1,81 @@
+import { countCells } from './geometry';
+import { CellId, ClueMini, EdgeId } from './types';
+
+
+// True when a wall separates two orthogonally adjacent cells
+export const isWallBetween = (walls: Set<EdgeId>, rowA: number, colA: number, rowB: number, colB: number): boolean => {
+    if (rowA === rowB) {
+        return walls.has(`v-${rowA}-${Math.max(colA, colB)}`);
+    }
+    return walls.has(`h-${Math.max(rowA, rowB)}-${colA}`);
+};
+
+
+// Flood-fill the grid into regions enclosed by walls.
+// Each region lists its cell ids in row-major order.
+export const computeRegions = (rows: number, cols: number, walls: Set<EdgeId>): CellId[][] => {
+    const visited: boolean[][] = Array(rows).fill(null).map(() => Array(cols).fill(false));
+    const regions: CellId[][] = [];
+
+    for (let startRow = 0; startRow < rows; startRow++) {
+        for (let startCol = 0; startCol < cols; startCol++) {
+            if (visited[startRow][startCol]) continue;
+
+            const cells: [number, number][] = [];
+            const stack: [number, number][] = [[startRow, startCol]];
+            visited[startRow][startCol] = true;
+
+            while (stack.length > 0) {
+                const [row, col] = stack.pop()!;
+                cells.push([row, col]);
+                const neighbours: [number, number][] = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+                for (const [nRow, nCol] of neighbours) {
+                    if (nRow < 0 || nRow >= rows || nCol < 0 || nCol >= cols) continue;
+                    if (visited[nRow][nCol] || isWallBetween(walls, row, col, nRow, nCol)) continue;
+                    visited[nRow][nCol] = true;
+                    stack.push([nRow, nCol]);
+                }
+            }
+
+            cells.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+            regions.push(cells.map(([row, col]) => `${row}-${col}`));
+        }
+    }
+
+    return regions;
+};
+
+
+// Positive blocks minus negative ones
+export const getClueArea = (minis: ClueMini[]): number =>
+    minis.reduce((sum, mini) => sum + (mini.negative ? -1 : 1) * countCells(mini.pattern), 0);
+
+
+// A region can only be solved when its clues cover each cell exactly once,
+// or cancel out entirely (net zero) thanks to negative pieces
+export const hasMatchingArea = (minis: ClueMini[], regionSize: number): boolean => {
+    const area = getClueArea(minis);
+    return area === regionSize || (area === 0 && minis.some(mini => mini.negative));
+};
+
+
+export interface RegionSummary {
+    cells: CellId[];
+    // Net clue area, positive blocks minus negative ones
+    clueArea: number;
+    hasClues: boolean;
+    // False when the clues inside can't possibly fill the region
+    matches: boolean;
+}
+
+
+export const summarizeRegions = (rows: number, cols: number, walls: Set<EdgeId>, cellMinis: Map<CellId, ClueMini>): RegionSummary[] =>
+    computeRegions(rows, cols, walls).map(cells => {
+        const minis = cells.flatMap(cellId => cellMinis.get(cellId) ?? []);
+        return {
+            cells,
+            clueArea: getClueArea(minis),
+            hasClues: minis.length > 0,
+            matches: minis.length === 0 || hasMatchingArea(minis, cells.length),
+        };
+    });
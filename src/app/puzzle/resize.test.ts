@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createPuzzle } from './puzzle';
+import { describeDroppedContent, hasDroppedContent, resizePuzzle } from './resize';
+import { Puzzle } from './types';
+
+
+const samplePuzzle = (): Puzzle => ({
+    ...createPuzzle(2, 2),
+    walls: new Set(['v-0-1', 'h-1-1']),
+    markedCells: new Set(['1-1']),
+    cellSymbols: new Map([['0-0', { kind: 'square', color: '#000000' }]]),
+    starts: new Set(['2-0']),
+    ends: new Set(['0-2']),
+});
+
+
+describe('resizePuzzle', () => {
+    it('keeps everything when growing from the top-left', () => {
+        const { puzzle, dropped } = resizePuzzle(samplePuzzle(), 3, 3, 'top-left');
+        expect(hasDroppedContent(dropped)).toBe(false);
+        expect([...puzzle.walls]).toEqual(['v-0-1', 'h-1-1']);
+        expect(puzzle.markedCells.has('1-1')).toBe(true);
+    });
+
+    it('shifts content towards the anchor', () => {
+        const { puzzle } = resizePuzzle(samplePuzzle(), 3, 3, 'bottom-right');
+        expect([...puzzle.walls]).toEqual(['v-1-2', 'h-2-2']);
+        expect(puzzle.cellSymbols.has('1-1')).toBe(true);
+        expect(puzzle.markedCells.has('2-2')).toBe(true);
+    });
+
+    it('counts what no longer fits', () => {
+        const { puzzle, dropped } = resizePuzzle(samplePuzzle(), 1, 1, 'top-left');
+        expect(puzzle.markedCells.size).toBe(0);
+        expect(dropped.markers).toBe(1);
+        // v-0-1 becomes the right border of the single cell
+        expect([...puzzle.walls]).toEqual(['v-0-1']);
+        expect(dropped.walls).toBe(1);
+        // The start circle and end cap sat on corners now outside the grid
+        expect(dropped.points).toBe(2);
+        expect(describeDroppedContent(dropped)).toBe('1 wall, 1 marker, 2 start or end points');
+    });
+
+    it('keeps the traced line while it fits, and counts it when it doesn\'t', () => {
+        const traced = { ...samplePuzzle(), line: ['2-0', '1-0', '1-1', '0-1', '0-2'] };
+        expect(resizePuzzle(traced, 3, 3, 'bottom-right').puzzle.line).toEqual(['3-1', '2-1', '2-2', '1-2', '1-3']);
+
+        const { puzzle, dropped } = resizePuzzle(traced, 2, 1, 'top-left');
+        expect(puzzle.line).toEqual([]);
+        expect(dropped.line).toBe(1);
+        expect(describeDroppedContent(dropped)).toContain('1 traced line');
+    });
+});
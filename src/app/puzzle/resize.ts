@@ -0,0 +1,173 @@
+import { parseCellId } from './geometry';
+import {
+    Vertex, isBoundaryVertex, isDotInBounds, isEdgeDot, isEdgeInBounds, isVertexInBounds, parseVertexId, toVertexId,
+} from './line';
+import { fitsInBounds, isInBounds } from './puzzle';
+import { Puzzle } from './types';
+
+
+export type ResizeAnchor =
+    | 'top-left' | 'top' | 'top-right'
+    | 'left' | 'center' | 'right'
+    | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export const RESIZE_ANCHORS: ResizeAnchor[] = [
+    'top-left', 'top', 'top-right',
+    'left', 'center', 'right',
+    'bottom-left', 'bottom', 'bottom-right',
+];
+
+export interface DroppedContent {
+    pieces: number;
+    walls: number;
+    markers: number;
+    // Tetris clues, squares and stars
+    symbols: number;
+    // Start circles and end caps
+    points: number;
+    brokenEdges: number;
+    dots: number;
+    // 1 when the traced line no longer fits, as it is kept whole or not at all
+    line: number;
+}
+
+export interface ResizeResult {
+    puzzle: Puzzle;
+    dropped: DroppedContent;
+}
+
+
+type Alignment = 'start' | 'center' | 'end';
+
+// [vertical, horizontal] alignment of the existing content for each anchor
+const ANCHOR_ALIGNMENT: Record<ResizeAnchor, [Alignment, Alignment]> = {
+    'top-left': ['start', 'start'],
+    'top': ['start', 'center'],
+    'top-right': ['start', 'end'],
+    'left': ['center', 'start'],
+    'center': ['center', 'center'],
+    'right': ['center', 'end'],
+    'bottom-left': ['end', 'start'],
+    'bottom': ['end', 'center'],
+    'bottom-right': ['end', 'end'],
+};
+
+
+const getShift = (alignment: Alignment, oldSize: number, newSize: number): number => {
+    if (alignment === 'start') return 0;
+    if (alignment === 'end') return newSize - oldSize;
+    return Math.trunc((newSize - oldSize) / 2);
+};
+
+
+// Resizes the grid keeping every wall, marker, symbol and piece that still fits
+export const resizePuzzle = (puzzle: Puzzle, rows: number, cols: number, anchor: ResizeAnchor): ResizeResult => {
+    const [vertical, horizontal] = ANCHOR_ALIGNMENT[anchor];
+    const dr = getShift(vertical, puzzle.rows, rows);
+    const dc = getShift(horizontal, puzzle.cols, cols);
+    const resized: Puzzle = { ...puzzle, rows, cols };
+    const dropped: DroppedContent = { pieces: 0, walls: 0, markers: 0, symbols: 0, points: 0, brokenEdges: 0, dots: 0, line: 0 };
+
+    resized.pieces = puzzle.pieces
+        .map(piece => ({ ...piece, row: piece.row + dr, col: piece.col + dc }))
+        .filter(piece => fitsInBounds(resized, piece.pattern, piece.row, piece.col));
+    dropped.pieces = puzzle.pieces.length - resized.pieces.length;
+
+    const shiftEdge = (edgeId: string): string => {
+        const [kind, row, col] = edgeId.split('-');
+        return `${kind}-${Number(row) + dr}-${Number(col) + dc}`;
+    };
+    const shiftVertex = (vertexId: string): string => {
+        const [row, col] = parseVertexId(vertexId);
+        return toVertexId([row + dr, col + dc]);
+    };
+
+    // Shifted edges that still fit, and how many didn't
+    const shiftEdges = (edges: Set<string>): [Set<string>, number] => {
+        const shifted = new Set([...edges].map(shiftEdge).filter(edgeId => isEdgeInBounds(rows, cols, edgeId)));
+        return [shifted, edges.size - shifted.size];
+    };
+    [resized.walls, dropped.walls] = shiftEdges(puzzle.walls);
+    [resized.brokenEdges, dropped.brokenEdges] = shiftEdges(puzzle.brokenEdges);
+
+    resized.markedCells = new Set();
+    for (const cellId of puzzle.markedCells) {
+        const [row, col] = parseCellId(cellId);
+        if (isInBounds(resized, row + dr, col + dc)) {
+            resized.markedCells.add(`${row + dr}-${col + dc}`);
+        }
+        else {
+            dropped.markers++;
+        }
+    }
+
+    resized.cellSymbols = new Map();
+    for (const [cellId, symbol] of puzzle.cellSymbols) {
+        const [row, col] = parseCellId(cellId);
+        if (isInBounds(resized, row + dr, col + dc)) {
+            resized.cellSymbols.set(`${row + dr}-${col + dc}`, symbol);
+        }
+        else {
+            dropped.symbols++;
+        }
+    }
+
+    // End caps that end up inside the grid no longer lead out of it
+    const shiftPoints = (points: Set<string>, fits: (vertex: Vertex) => boolean): Set<string> => {
+        const shifted = new Set<string>();
+        for (const vertexId of points) {
+            const moved = shiftVertex(vertexId);
+            if (fits(parseVertexId(moved))) {
+                shifted.add(moved);
+            }
+            else {
+                dropped.points++;
+            }
+        }
+        return shifted;
+    };
+    resized.starts = shiftPoints(puzzle.starts, vertex => isVertexInBounds(rows, cols, vertex));
+    resized.ends = shiftPoints(puzzle.ends, vertex => isBoundaryVertex(rows, cols, vertex));
+
+    // The line's edges are also counted with the walls
+    const line = puzzle.line.map(shiftVertex);
+    const lineFits = line.every(vertexId => isVertexInBounds(rows, cols, parseVertexId(vertexId)));
+    resized.line = lineFits ? line : [];
+    dropped.line = lineFits || line.length === 0 ? 0 : 1;
+
+    resized.dots = new Set();
+    for (const dotId of puzzle.dots) {
+        const shifted = isEdgeDot(dotId) ? shiftEdge(dotId) : shiftVertex(dotId);
+        if (isDotInBounds(rows, cols, shifted)) {
+            resized.dots.add(shifted);
+        }
+        else {
+            dropped.dots++;
+        }
+    }
+
+    return { puzzle: resized, dropped };
+};
+
+
+export const hasDroppedContent = (dropped: DroppedContent): boolean =>
+    dropped.pieces + dropped.walls + dropped.markers + dropped.symbols + dropped.points + dropped.brokenEdges + dropped.dots + dropped.line > 0;
+
+
+// e.g. "2 placed pieces, 1 wall"
+export const describeDroppedContent = (dropped: DroppedContent): string => {
+    const parts: [number, string][] = [
+        [dropped.pieces, 'placed piece'],
+        [dropped.walls, 'wall'],
+        [dropped.markers, 'marker'],
+        [dropped.symbols, 'symbol'],
+        [dropped.points, 'start or end point'],
+        [dropped.brokenEdges, 'broken edge'],
+        [dropped.dots, 'dot'],
+        [dropped.line, 'traced line'],
+    ];
+    return parts
+        .filter(([count]) => count > 0)
+        .map(([count, label]) => `${count} ${label}${count > 1 ? 's' : ''}`)
+        .join(', ');
+};
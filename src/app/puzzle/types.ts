@@ -0,0 +1,71 @@
+// Cell ids are `${row}-${col}`
+export type CellId = string;
+
+// Edge ids are `h-${row}-${col}` for the edge above cell (row, col)
+// and `v-${row}-${col}` for the edge on its left
+export type EdgeId = string;
+
+// Vertex ids are `${row}-${col}` for the lattice corner above and left of cell (row, col),
+// from 0-0 to rows-cols
+export type VertexId = string;
+
+// Hexagon dots sit on a vertex (VertexId) or on an edge (EdgeId)
+export type DotId = VertexId | EdgeId;
+
+// Rows of 0/1 flags, one per block
+export type Pattern = number[][];
+
+// Tetris symbol drawn inside a cell in edition mode
+export interface ClueMini {
+    pattern: Pattern;
+    color: string;
+    // Tilted clues may be placed in any rotation; upright ones only as drawn
+    rotatable: boolean;
+    // Hollow blue clue whose blocks cancel positive ones
+    negative?: boolean;
+}
+
+// Symbol held by a cell, each kind with its own region rule
+export type CellSymbol =
+    // The region must be tiled by the pieces of its tetris clues
+    | ({ kind: 'tetris' } & ClueMini)
+    // A region can't hold squares of different colors
+    | { kind: 'square'; color: string }
+    // A star shares its region with exactly one other symbol of its color
+    | { kind: 'star'; color: string }
+    // Cancels exactly one other symbol of its region that breaks a rule
+    | { kind: 'elimination' };
+
+export type CellSymbolKind = CellSymbol['kind'];
+
+export interface PlacedPiece {
+    id: string;
+    type: string;
+    pattern: Pattern;
+    originalPattern: Pattern;
+    color: string;
+    // Negative pieces may overlap positive ones, each cancelling one block
+    negative?: boolean;
+    row: number;
+    col: number;
+    rotation: number;
+}
+
+export interface Puzzle {
+    rows: number;
+    cols: number;
+    // Later pieces are drawn on top of earlier ones
+    pieces: PlacedPiece[];
+    walls: Set<EdgeId>;
+    markedCells: Set<CellId>;
+    cellSymbols: Map<CellId, CellSymbol>;
+    // Start circles and end caps of the line; end caps sit on the border
+    starts: Set<VertexId>;
+    ends: Set<VertexId>;
+    // Gaps in the lattice that the line can't pass through
+    brokenEdges: Set<EdgeId>;
+    // Hexagon dots the line must run through
+    dots: Set<DotId>;
+    // Vertices of the traced line, from its start; its edges are the walls
+    line: VertexId[];
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { createPuzzle } from './puzzle';
+import { CellSymbol, ClueMini, PlacedPiece, Puzzle } from './types';
+import { validatePuzzle } from './validate';
+
+
+const withSymbols = (symbols: [string, CellSymbol][], puzzle: Partial<Puzzle> = {}): Puzzle =>
+    ({ ...createPuzzle(2, 2), cellSymbols: new Map(symbols), ...puzzle });
+
+const withClues = (clues: [string, ClueMini][], puzzle: Partial<Puzzle> = {}): Puzzle =>
+    withSymbols(clues.map(([cellId, mini]) => [cellId, { kind: 'tetris', ...mini }]), puzzle);
+
+const piece = (pattern: number[][], row: number, col: number): PlacedPiece =>
+    ({ id: `piece-${row}-${col}`, type: 'test', pattern, originalPattern: pattern, color: '#F5BE02', row, col, rotation: 0 });
+
+const issueKinds = (puzzle: Puzzle) => validatePuzzle(puzzle).issues.map(issue => issue.kind);
+
+const square: ClueMini = { pattern: [[1, 1], [1, 1]], color: '#F5BE02', rotatable: false };
+const domino: ClueMini = { pattern: [[1, 1]], color: '#F5BE02', rotatable: true };
+const black: CellSymbol = { kind: 'square', color: '#000000' };
+const white: CellSymbol = { kind: 'square', color: '#ffffff' };
+const mark: CellSymbol = { kind: 'elimination' };
+
+
+describe('validatePuzzle', () => {
+    it('accepts a region tiled by the pieces of its clues', () => {
+        const puzzle = withClues([['0-0', square]], { pieces: [piece([[1, 1], [1, 1]], 0, 0)] });
+        expect(validatePuzzle(puzzle).valid).toBe(true);
+    });
+
+    it('matches pieces to clues in any rotation', () => {
+        const walls = new Set(['v-0-1', 'v-1-1']);
+        expect(issueKinds(withClues([['0-0', domino], ['0-1', domino]], { walls, pieces: [piece([[1], [1]], 0, 0), piece([[1], [1]], 0, 1)] }))).toEqual([]);
+    });
+
+    it('reports rotated pieces of upright clues', () => {
+        const walls = new Set(['v-0-1', 'v-1-1']);
+        const upright: ClueMini = { ...domino, rotatable: false };
+        expect(issueKinds(withClues([['0-0', upright], ['0-1', domino]], { walls, pieces: [piece([[1], [1]], 0, 0), piece([[1], [1]], 0, 1)] }))).toEqual(['rotated-piece']);
+    });
+
+    it('reports uncovered cells and clues without a piece', () => {
+        expect(issueKinds(withClues([['0-0', square]]))).toEqual(['gap', 'missing-piece']);
+    });
+
+    it('reports pieces crossing walls or overlapping', () => {
+        const crossing = withClues([['0-0', square]], { walls: new Set(['v-0-1']), pieces: [piece([[1, 1], [1, 1]], 0, 0)] });
+        expect(issueKinds(crossing)).toContain('crosses-wall');
+        const overlapping = withClues([['0-0', domino], ['1-0', domino]], { pieces: [piece([[1, 1]], 0, 0), piece([[1, 1]], 0, 0)] });
+        expect(issueKinds(overlapping)).toEqual(['overlap', 'gap']);
+    });
+
+    it('applies the square and star rules', () => {
+        expect(issueKinds(withSymbols([['0-0', black], ['1-1', white]]))).toEqual(['mixed-squares']);
+        expect(issueKinds(withSymbols([['0-0', black], ['1-1', white]], { walls: new Set(['v-0-1', 'v-1-1']) }))).toEqual([]);
+        const star: CellSymbol = { kind: 'star', color: '#000000' };
+        expect(issueKinds(withSymbols([['0-0', star], ['1-1', black]]))).toEqual([]);
+        expect(issueKinds(withSymbols([['0-0', star]]))).toEqual(['unpaired-star']);
+    });
+
+    it('reports empty and off-grid pieces instead of failing', () => {
+        expect(issueKinds(withSymbols([], { pieces: [piece([[0]], 0, 0)] }))).toEqual(['extra-piece']);
+        expect(issueKinds(withSymbols([], { pieces: [piece([[1, 1]], 1, 1)] }))).toEqual(['crosses-wall']);
+    });
+
+    it('reports dots the walls miss', () => {
+        const result = validatePuzzle(withClues([], { dots: new Set(['1-1', 'h-0-0']), walls: new Set(['h-0-0']) }));
+        expect(result.issues.map(issue => issue.kind)).toEqual(['missed-dot']);
+        expect([...result.conflictDots]).toEqual(['1-1']);
+    });
+
+    it('reports pieces in a region without clues', () => {
+        const result = validatePuzzle(withClues([], { pieces: [piece([[1]], 1, 1)] }));
+        expect(result.issues.map(issue => issue.kind)).toEqual(['extra-piece']);
+        expect([...result.conflictCells]).toEqual(['1-1']);
+    });
+});
+
+
+describe('elimination marks', () => {
+    it('cancel one symbol breaking a rule', () => {
+        const result = validatePuzzle(withSymbols([['0-0', mark], ['0-1', black], ['1-0', white]]));
+        expect(result.valid).toBe(true);
+        expect(result.cancelledCells.size).toBe(1);
+    });
+
+    it('cancel a tetris clue that does not fit', () => {
+        const clue: CellSymbol = { kind: 'tetris', pattern: [[1, 1, 1]], color: '#F5BE02', rotatable: false };
+        const result = validatePuzzle(withSymbols([['0-0', mark], ['1-1', clue]]));
+        expect(result.valid).toBe(true);
+        expect([...result.cancelledCells]).toEqual(['1-1']);
+    });
+
+    it('fail with nothing to cancel', () => {
+        expect(issueKinds(withSymbols([['0-0', mark]]))).toEqual(['unused-elimination']);
+        expect(issueKinds(withSymbols([['0-0', mark], ['1-1', black]]))).toEqual(['unused-elimination']);
+    });
+
+    it('may cancel each other', () => {
+        const result = validatePuzzle(withSymbols([['0-0', mark], ['1-1', mark]]));
+        expect(result.valid).toBe(true);
+        expect(result.cancelledCells.size).toBe(1);
+    });
+
+    it('leave a region with more broken rules than marks as it is', () => {
+        const red: CellSymbol = { kind: 'square', color: '#ff0000' };
+        expect(issueKinds(withSymbols([['0-0', mark], ['0-1', black], ['1-0', white], ['1-1', red]]))).toEqual(['mixed-squares']);
+    });
+
+    it('only act inside their own region', () => {
+        const walls = new Set(['v-0-1', 'v-1-1']);
+        expect(issueKinds(withSymbols([['0-0', mark], ['0-1', black], ['1-1', white]], { walls }))).toEqual(['unused-elimination', 'mixed-squares']);
+    });
+
+    it('cannot cancel a missed dot', () => {
+        const puzzle = withSymbols([['0-0', mark], ['0-1', black], ['1-0', white]], { dots: new Set(['1-1']) });
+        expect(issueKinds(puzzle)).toEqual(['missed-dot']);
+    });
+});
@@ -0,0 +1,393 @@
+import { getPatternCells, getShapeKey, parseCellId } from './geometry';
+import { getLineEdges, getMissedDots, isLineComplete } from './line';
+import { computeRegions, getClueArea, isWallBetween } from './regions';
+import { CellId, CellSymbol, ClueMini, DotId, EdgeId, PlacedPiece, Puzzle } from './types';
+
+
+export type ValidationIssueKind =
+    | 'overlap'
+    | 'gap'
+    | 'crosses-wall'
+    | 'spans-regions'
+    | 'missing-piece'
+    | 'extra-piece'
+    | 'rotated-piece'
+    | 'incomplete-line'
+    | 'missed-dot'
+    | 'mixed-squares'
+    | 'unpaired-star'
+    | 'unused-elimination';
+
+export interface ValidationIssue {
+    kind: ValidationIssueKind;
+    message: string;
+    cells: CellId[];
+    walls: EdgeId[];
+    dots?: DotId[];
+}
+
+export interface ValidationResult {
+    valid: boolean;
+    issues: ValidationIssue[];
+    // Union of every issue's cells and walls, for highlighting
+    conflictCells: Set<CellId>;
+    conflictWalls: Set<EdgeId>;
+    conflictDots: Set<DotId>;
+    // Symbols cancelled by elimination marks
+    cancelledCells: Set<CellId>;
+}
+
+
+const describeCell = (cellId: CellId): string => {
+    const [row, col] = parseCellId(cellId);
+    return `row ${row + 1}, column ${col + 1}`;
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count > 1 ? 's' : ''}`;
+
+
+const getPieceCellIds = (piece: PlacedPiece): CellId[] =>
+    getPatternCells(piece.pattern, piece.row, piece.col).map(([r, c]) => `${r}-${c}`);
+
+
+// Walls between adjacent blocks of a placed piece
+const getCrossedWalls = (walls: Set<EdgeId>, piece: PlacedPiece): EdgeId[] => {
+    const cells = getPatternCells(piece.pattern, piece.row, piece.col);
+    const cellSet = new Set(cells.map(([r, c]) => `${r}-${c}`));
+    const crossed: EdgeId[] = [];
+    for (const [row, col] of cells) {
+        if (cellSet.has(`${row}-${col + 1}`) && isWallBetween(walls, row, col, row, col + 1)) {
+            crossed.push(`v-${row}-${col + 1}`);
+        }
+        if (cellSet.has(`${row + 1}-${col}`) && isWallBetween(walls, row, col, row + 1, col)) {
+            crossed.push(`h-${row + 1}-${col}`);
+        }
+    }
+    return crossed;
+};
+
+
+// Hex colors match whatever the case of their digits
+const getColorKey = (color: string): string => color.toLowerCase();
+
+
+// Square and star rules of a region. Negative clues are drawn in blue whatever
+// their color, so they don't pair with stars.
+export const getSymbolIssues = (region: CellId[], cellSymbols: Map<CellId, CellSymbol>, where: string): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const symbols = region.flatMap(cellId => {
+        const symbol = cellSymbols.get(cellId);
+        return symbol ? [{ cellId, symbol }] : [];
+    });
+
+    const squares = symbols.flatMap(({ cellId, symbol }) => symbol.kind === 'square' ? [{ cellId, color: getColorKey(symbol.color) }] : []);
+    const squareColors = new Set(squares.map(({ color }) => color));
+    if (squareColors.size > 1) {
+        issues.push({
+            kind: 'mixed-squares',
+            message: `${where} mixes squares of ${squareColors.size} colors`,
+            cells: squares.map(({ cellId }) => cellId),
+            walls: [],
+        });
+    }
+
+    const starColors = new Set(symbols.flatMap(({ symbol }) => symbol.kind === 'star' ? [getColorKey(symbol.color)] : []));
+    for (const color of starColors) {
+        const matching = symbols.filter(({ symbol }) =>
+            symbol.kind !== 'elimination' && getColorKey(symbol.color) === color && !(symbol.kind === 'tetris' && symbol.negative));
+        if (matching.length === 2) continue;
+        issues.push({
+            kind: 'unpaired-star',
+            message: matching.length === 1
+                ? `${where}: a star has no other symbol of its color`
+                : `${where}: ${matching.length} symbols share the color of a star, which pairs with exactly one`,
+            cells: matching.map(({ cellId }) => cellId),
+            walls: [],
+        });
+    }
+    return issues;
+};
+
+
+// Rules of one region, with only the given symbols in play
+const getRegionIssues = (
+    region: CellId[],
+    symbols: Map<CellId, CellSymbol>,
+    regionPieces: PlacedPiece[],
+    coverage: Map<CellId, number>,
+    where: string,
+): ValidationIssue[] => {
+    const cellMinis = new Map<CellId, ClueMini>();
+    symbols.forEach((symbol, cellId) => {
+        if (symbol.kind === 'tetris') cellMinis.set(cellId, symbol);
+    });
+    const clues = region.filter(cellId => cellMinis.has(cellId));
+    const issues = getSymbolIssues(region, symbols, where);
+
+    if (clues.length === 0) {
+        if (regionPieces.length > 0) {
+            issues.push({
+                kind: 'extra-piece',
+                message: `${where} has no clues but holds ${plural(regionPieces.length, 'piece')}`,
+                cells: regionPieces.flatMap(getPieceCellIds),
+                walls: [],
+            });
+        }
+        return issues;
+    }
+
+    // Each cell must be covered exactly once, or not at all when the negative
+    // clues cancel every positive block
+    const target = getClueArea(clues.map(cellId => cellMinis.get(cellId)!)) === 0 ? 0 : 1;
+    const net = (cellId: CellId) => coverage.get(cellId) ?? 0;
+    const excess = region.filter(cellId => net(cellId) > target);
+    if (excess.length > 0) {
+        issues.push({
+            kind: 'overlap',
+            message: target === 1
+                ? `${where} has ${plural(excess.length, 'cell')} covered more than once`
+                : `${where} has ${plural(excess.length, 'cell')} whose blocks aren't cancelled by negative pieces`,
+            cells: excess,
+            walls: [],
+        });
+    }
+    const cancelled = region.filter(cellId => net(cellId) < 0 || (target === 1 && net(cellId) === 0 && coverage.has(cellId)));
+    if (cancelled.length > 0) {
+        issues.push({
+            kind: 'gap',
+            message: `${where} has ${plural(cancelled.length, 'cell')} where negative blocks cancel too much`,
+            cells: cancelled,
+            walls: [],
+        });
+    }
+    const gaps = target === 1 ? region.filter(cellId => !coverage.has(cellId)) : [];
+    if (gaps.length > 0) {
+        issues.push({
+            kind: 'gap',
+            message: `${where} has ${plural(gaps.length, 'uncovered cell')}`,
+            cells: gaps,
+            walls: [],
+        });
+    }
+
+    // Upright clues only accept a piece in their exact orientation, so they pick
+    // first; tilted clues then take the remaining pieces of their shape
+    const unmatchedClues = [...clues];
+    let unmatchedPieces = [...regionPieces];
+    const matchPieces = (accepts: (clue: ClueMini, piece: PlacedPiece) => boolean) => {
+        unmatchedPieces = unmatchedPieces.filter(piece => {
+            const match = unmatchedClues.findIndex(cellId => accepts(cellMinis.get(cellId)!, piece));
+            if (match < 0) return true;
+            unmatchedClues.splice(match, 1);
+            return false;
+        });
+    };
+    const sameSign = (clue: ClueMini, piece: PlacedPiece) => !!clue.negative === !!piece.negative;
+    matchPieces((clue, piece) => sameSign(clue, piece) && !clue.rotatable && JSON.stringify(clue.pattern) === JSON.stringify(piece.pattern));
+    matchPieces((clue, piece) => sameSign(clue, piece) && clue.rotatable && getShapeKey(clue.pattern) === getShapeKey(piece.pattern));
+
+    // Leftover pieces that only miss an upright clue by their rotation
+    const leftoverPieces = unmatchedPieces;
+    matchPieces((clue, piece) => sameSign(clue, piece) && !clue.rotatable && getShapeKey(clue.pattern) === getShapeKey(piece.pattern));
+    const rotatedPieces = leftoverPieces.filter(piece => !unmatchedPieces.includes(piece));
+    if (rotatedPieces.length > 0) {
+        issues.push({
+            kind: 'rotated-piece',
+            message: `${where}: ${plural(rotatedPieces.length, 'piece')} rotated although ${rotatedPieces.length > 1 ? 'their clues are' : 'its clue is'} upright`,
+            cells: rotatedPieces.flatMap(getPieceCellIds),
+            walls: [],
+        });
+    }
+
+    if (unmatchedClues.length > 0) {
+        issues.push({
+            kind: 'missing-piece',
+            message: `${where}: ${plural(unmatchedClues.length, 'clue')} without a matching piece`,
+            cells: unmatchedClues,
+            walls: [],
+        });
+    }
+    if (unmatchedPieces.length > 0) {
+        issues.push({
+            kind: 'extra-piece',
+            message: `${where}: ${plural(unmatchedPieces.length, 'piece')} matching none of its clues`,
+            cells: unmatchedPieces.flatMap(getPieceCellIds),
+            walls: [],
+        });
+    }
+    return issues;
+};
+
+
+// Every way to pick `count` of the items, keeping their order
+function* getCombinations<T>(items: T[], count: number): Generator<T[]> {
+    if (count === 0) {
+        yield [];
+        return;
+    }
+    for (let i = 0; i <= items.length - count; i++) {
+        for (const rest of getCombinations(items.slice(i + 1), count - 1)) yield [items[i], ...rest];
+    }
+}
+
+const countCombinations = (size: number, count: number): number => {
+    let total = 1;
+    for (let i = 0; i < count; i++) total = total * (size - i) / (i + 1);
+    return total;
+};
+
+// Choices of cancelled symbols tried per region before giving up
+const MAX_ELIMINATION_CHOICES = 5000;
+
+
+// Each elimination mark cancels exactly one other symbol of its region, which must be
+// breaking a rule: the region passes when some choice of cancelled symbols leaves no
+// issue, and putting back any of them breaks a rule again. A mark may cancel another
+// mark, which then cancels nothing, so two marks alone in a region pass.
+export const applyEliminations = (
+    symbols: Map<CellId, CellSymbol>,
+    check: (active: Map<CellId, CellSymbol>) => ValidationIssue[],
+    where: string,
+): { issues: ValidationIssue[]; cancelled: CellId[] } => {
+    const eliminations = [...symbols].filter(([, symbol]) => symbol.kind === 'elimination').map(([cellId]) => cellId);
+    const without = (cancelled: CellId[]) => new Map([...symbols].filter(([cellId]) => !eliminations.includes(cellId) && !cancelled.includes(cellId)));
+
+    const issues = check(without([]));
+    if (eliminations.length === 0) return { issues, cancelled: [] };
+
+    // Only symbols caught in a broken rule are worth cancelling. Tetris issues point
+    // at cells rather than clues, so any clue of the region may be the culprit.
+    const broken = new Set(issues.flatMap(issue => issue.cells));
+    const tetrisBroken = issues.some(issue => issue.kind !== 'mixed-squares' && issue.kind !== 'unpaired-star');
+    const candidates = [...symbols].filter(([cellId, symbol]) =>
+        symbol.kind !== 'elimination' && (broken.has(cellId) || (tetrisBroken && symbol.kind === 'tetris'))).map(([cellId]) => cellId);
+
+    // Marks are left over when cancelling every candidate can't use them all
+    let unused = candidates.length < eliminations.length && check(without(candidates)).length === 0;
+    // With `pairs` marks cancelling each other, the others each cancel a candidate
+    for (let pairs = 0; pairs * 2 <= eliminations.length; pairs++) {
+        const count = eliminations.length - pairs * 2;
+        if (count > candidates.length) continue;
+        // Regions too crowded to search are reported as they are
+        if (countCombinations(candidates.length, count) > MAX_ELIMINATION_CHOICES) return { issues, cancelled: [] };
+
+        for (const chosen of getCombinations(candidates, count)) {
+            if (check(without(chosen)).length > 0) continue;
+            if (chosen.every(cellId => check(without(chosen.filter(other => other !== cellId))).length > 0)) {
+                return { issues: [], cancelled: [...chosen, ...eliminations.slice(eliminations.length - pairs)] };
+            }
+            unused = true;
+        }
+    }
+    // Too many broken rules for the marks are reported as they are
+    if (!unused) return { issues, cancelled: [] };
+    return {
+        issues: [{
+            kind: 'unused-elimination',
+            message: `${where}: ${eliminations.length === 1 ? 'its elimination mark has nothing' : 'not every elimination mark has something'} to cancel`,
+            cells: eliminations,
+            walls: [],
+        }],
+        cancelled: [],
+    };
+};
+
+
+// Checks placed pieces against the Witness tetris rule: every wall-bounded region
+// must be covered exactly by pieces matching the clues it contains. Squares and
+// stars add their own rules to each region, and elimination marks cancel broken ones.
+export const validatePuzzle = (puzzle: Puzzle): ValidationResult => {
+    const { rows, cols, walls, cellSymbols, pieces } = puzzle;
+    const issues: ValidationIssue[] = [];
+
+    // Once the puzzle has start circles, its regions come from a finished line
+    if (puzzle.starts.size > 0 && !isLineComplete(puzzle)) {
+        issues.push({
+            kind: 'incomplete-line',
+            message: puzzle.line.length > 1
+                ? 'The line must run from a start circle to an end cap'
+                : 'Trace a line from a start circle to an end cap in play mode',
+            cells: [],
+            walls: getLineEdges(puzzle.line),
+        });
+    }
+
+    const missedDots = getMissedDots(puzzle);
+    if (missedDots.length > 0) {
+        issues.push({
+            kind: 'missed-dot',
+            message: `The ${puzzle.line.length > 1 ? 'line' : 'walls'} miss${puzzle.line.length > 1 ? 'es' : ''} ${plural(missedDots.length, 'dot')}`,
+            cells: [],
+            walls: [],
+            dots: missedDots,
+        });
+    }
+
+    const regions = computeRegions(rows, cols, walls);
+    const regionOf = new Map<CellId, number>();
+    regions.forEach((region, index) => region.forEach(cellId => regionOf.set(cellId, index)));
+
+    // Positive blocks minus negative blocks on each cell
+    const coverage = new Map<CellId, number>();
+    // Pieces are attributed to the region of their first block
+    const piecesByRegion: PlacedPiece[][] = regions.map(() => []);
+
+    for (const piece of pieces) {
+        const cells = getPieceCellIds(piece);
+        // Hand-edited files can hold empty pieces or pieces hanging off the grid
+        const region = cells.length > 0 ? regionOf.get(cells[0]) : undefined;
+        if (region === undefined || cells.some(cellId => !regionOf.has(cellId))) {
+            issues.push({
+                kind: cells.length === 0 ? 'extra-piece' : 'crosses-wall',
+                message: cells.length === 0
+                    ? `A piece at ${describeCell(`${piece.row}-${piece.col}`)} has no blocks`
+                    : `A piece at ${describeCell(`${piece.row}-${piece.col}`)} extends outside the grid`,
+                cells: cells.filter(cellId => regionOf.has(cellId)),
+                walls: [],
+            });
+            continue;
+        }
+        cells.forEach(cellId => coverage.set(cellId, (coverage.get(cellId) ?? 0) + (piece.negative ? -1 : 1)));
+        piecesByRegion[region].push(piece);
+
+        const crossed = getCrossedWalls(walls, piece);
+        if (crossed.length > 0) {
+            issues.push({
+                kind: 'crosses-wall',
+                message: `A piece at ${describeCell(cells[0])} crosses ${plural(crossed.length, 'wall')}`,
+                cells,
+                walls: crossed,
+            });
+        }
+        else if (new Set(cells.map(cellId => regionOf.get(cellId))).size > 1) {
+            issues.push({
+                kind: 'spans-regions',
+                message: `A piece at ${describeCell(cells[0])} spans several regions`,
+                cells,
+                walls: [],
+            });
+        }
+    }
+
+    const cancelledCells = new Set<CellId>();
+    regions.forEach((region, index) => {
+        const where = `Region starting at ${describeCell(region[0])}`;
+        const symbols = new Map(region.flatMap(cellId => {
+            const symbol = cellSymbols.get(cellId);
+            return symbol ? [[cellId, symbol] as const] : [];
+        }));
+        const check = (active: Map<CellId, CellSymbol>) => getRegionIssues(region, active, piecesByRegion[index], coverage, where);
+        const result = applyEliminations(symbols, check, where);
+        issues.push(...result.issues);
+        result.cancelled.forEach(cellId => cancelledCells.add(cellId));
+    });
+
+    return {
+        valid: issues.length === 0,
+        issues,
+        conflictCells: new Set(issues.flatMap(issue => issue.cells)),
+        conflictWalls: new Set(issues.flatMap(issue => issue.walls)),
+        conflictDots: new Set(issues.flatMap(issue => issue.dots ?? [])),
+        cancelledCells,
+    };
+};
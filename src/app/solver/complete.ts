@@ -0,0 +1,154 @@
+import { getPatternCells, getShapeKey, parseCellId } from '../puzzle/geometry';
+import { computeRegions, hasMatchingArea, isWallBetween } from '../puzzle/regions';
+import { CellId, ClueMini, PlacedPiece } from '../puzzle/types';
+import { getPlacementKey } from './count';
+import { Search, SearchStats, createSearchStats, runSearch } from './search';
+import { Placement, enumerateRegionTilings, tileRegionSearch } from './tiling';
+
+
+export type CompletionResult =
+    // Placements for the clues the fixed pieces leave over
+    | { completed: true; placements: Placement[] }
+    // `piece` is the first fixed piece that can't be part of a solution, or null
+    // when the puzzle has no solution at all
+    | { completed: false; piece: PlacedPiece | null; cells: CellId[]; message: string };
+
+type Clue = { cellId: string; mini: ClueMini };
+
+
+const describeCell = (cellId: CellId): string => {
+    const [row, col] = parseCellId(cellId);
+    return `row ${row + 1}, column ${col + 1}`;
+};
+
+const getCellIds = (piece: PlacedPiece): CellId[] =>
+    getPatternCells(piece.pattern, piece.row, piece.col).map(([r, c]) => `${r}-${c}`);
+
+const crossesWall = (walls: Set<string>, cells: CellId[]): boolean =>
+    cells.some((a, i) => cells.some((b, j) => {
+        const [rowA, colA] = parseCellId(a);
+        const [rowB, colB] = parseCellId(b);
+        return j > i && Math.abs(rowA - rowB) + Math.abs(colA - colB) === 1 && isWallBetween(walls, rowA, colA, rowB, colB);
+    }));
+
+
+// The clue a fixed piece stands for: an upright clue drawn exactly like it, else a tilted clue of its shape
+const findClue = (clues: Clue[], piece: PlacedPiece): number => {
+    const sameSign = (clue: Clue) => !!clue.mini.negative === !!piece.negative;
+    const upright = clues.findIndex(clue => sameSign(clue) && !clue.mini.rotatable
+        && JSON.stringify(clue.mini.pattern) === JSON.stringify(piece.pattern));
+    if (upright >= 0) return upright;
+    return clues.findIndex(clue => sameSign(clue) && clue.mini.rotatable && getShapeKey(clue.mini.pattern) === getShapeKey(piece.pattern));
+};
+
+
+// Tiles a region around its fixed pieces, returning only the new placements
+function* completeRegion(
+    region: CellId[],
+    clues: Clue[],
+    walls: Set<string>,
+    fixed: PlacedPiece[],
+    stats: SearchStats,
+): Search<Placement[] | null> {
+    if (clues.some(clue => clue.mini.negative)) {
+        // Negative pieces overlap others, so look for a full tiling holding every fixed piece
+        const fixedKeys = fixed.map(getPlacementKey);
+        let completion: Placement[] | null = null;
+        yield* enumerateRegionTilings(region, clues, walls, stats, (placements) => {
+            const remaining = [...fixedKeys];
+            const added = placements.filter(placement => {
+                const index = remaining.indexOf(getPlacementKey(placement));
+                if (index >= 0) remaining.splice(index, 1);
+                return index < 0;
+            });
+            if (remaining.length > 0) return false;
+            completion = added;
+            return true;
+        });
+        return completion;
+    }
+
+    // Otherwise tile what the fixed pieces leave uncovered with the clues they leave over
+    const covered = new Set(fixed.flatMap(getCellIds));
+    const freeCells = region.filter(cellId => !covered.has(cellId));
+    const freeClues = [...clues];
+    fixed.forEach(piece => freeClues.splice(findClue(freeClues, piece), 1));
+    if (freeClues.length === 0) return freeCells.length === 0 ? [] : null;
+    if (!hasMatchingArea(freeClues.map(clue => clue.mini), freeCells.length)) return null;
+    return yield* tileRegionSearch(freeCells, freeClues, walls, stats);
+}
+
+
+// Solves for the clues left once the given pieces are fixed in place. When that's
+// impossible, points at the first fixed piece (in placement order) that leads to a dead end.
+export function* completeSearch(
+    rows: number,
+    cols: number,
+    walls: Set<string>,
+    cellMinis: Map<string, ClueMini>,
+    fixed: PlacedPiece[],
+    stats: SearchStats,
+): Search<CompletionResult> {
+    const regions = computeRegions(rows, cols, walls);
+    const regionOf = new Map<CellId, number>();
+    regions.forEach((region, index) => region.forEach(cellId => regionOf.set(cellId, index)));
+    const cluesByRegion: Clue[][] = regions.map(region => region
+        .filter(cellId => cellMinis.has(cellId))
+        .map(cellId => ({ cellId, mini: cellMinis.get(cellId)! })));
+
+    // Pieces that can't stand for any clue are reported right away
+    const fixedByRegion: PlacedPiece[][] = regions.map(() => []);
+    const freeClues = cluesByRegion.map(clues => [...clues]);
+    const covered = new Set<CellId>();
+    for (const piece of fixed) {
+        const cells = getCellIds(piece);
+        const dead = (message: string): CompletionResult => ({ completed: false, piece, cells, message: `The piece at ${describeCell(cells[0])} ${message}` });
+        const pieceRegions = new Set(cells.map(cellId => regionOf.get(cellId)));
+        if (pieceRegions.has(undefined)) return dead('sticks out of the grid');
+        if (pieceRegions.size > 1 || crossesWall(walls, cells)) return dead('crosses a wall');
+
+        const index = regionOf.get(cells[0])!;
+        if (cluesByRegion[index].length === 0) return dead('is in a region without clues');
+        const clue = findClue(freeClues[index], piece);
+        if (clue < 0) return dead('matches none of the clues left in its region');
+        freeClues[index].splice(clue, 1);
+
+        const exclusive = !cluesByRegion[index].some(({ mini }) => mini.negative);
+        if (exclusive && cells.some(cellId => covered.has(cellId))) return dead('overlaps another piece');
+        cells.forEach(cellId => covered.add(cellId));
+        fixedByRegion[index].push(piece);
+    }
+
+    const placements: Placement[] = [];
+    for (const [index, region] of regions.entries()) {
+        const clues = cluesByRegion[index];
+        if (clues.length === 0) continue;
+
+        const regionFixed = fixedByRegion[index];
+        const completion = yield* completeRegion(region, clues, walls, regionFixed, stats);
+        if (completion) {
+            placements.push(...completion);
+            continue;
+        }
+
+        if (regionFixed.length === 0 || !(yield* completeRegion(region, clues, walls, [], stats))) {
+            return { completed: false, piece: null, cells: region, message: `The region starting at ${describeCell(region[0])} can't be tiled by its clues, whatever the pieces` };
+        }
+        // The shortest run of fixed pieces that can't be completed ends with the culprit
+        let culprit = regionFixed[regionFixed.length - 1];
+        for (let count = 1; count < regionFixed.length; count++) {
+            if (!(yield* completeRegion(region, clues, walls, regionFixed.slice(0, count), stats))) {
+                culprit = regionFixed[count - 1];
+                break;
+            }
+        }
+        const cells = getCellIds(culprit);
+        return { completed: false, piece: culprit, cells, message: `Dead end: the piece at ${describeCell(cells[0])} can't be part of a solution together with the pieces placed before it` };
+    }
+
+    return { completed: true, placements };
+}
+
+
+export const complete = (rows: number, cols: number, walls: Set<string>, cellMinis: Map<string, ClueMini>, fixed: PlacedPiece[]): CompletionResult =>
+    runSearch(completeSearch(rows, cols, walls, cellMinis, fixed, createSearchStats()));
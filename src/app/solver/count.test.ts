@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ClueMini } from '../puzzle/types';
+import { countSolutions } from './count';
+
+
+const clue = (pattern: number[][], rotatable = false, color = '#F5BE02'): ClueMini => ({ pattern, color, rotatable });
+
+
+describe('countSolutions', () => {
+    it('finds a unique solution', () => {
+        // Walled 1×2 and 1×1 regions, each with exactly one way to fill it
+        const walls = new Set(['v-0-2']);
+        const result = countSolutions(1, 3, walls, new Map([['0-0', clue([[1, 1]])], ['0-2', clue([[1]])]]), 10);
+        expect(result).toMatchObject({ count: 1, exact: true });
+        expect(result.solutions[0]).toHaveLength(2);
+    });
+
+    it('counts every tiling of an open region', () => {
+        // Two tilted dominoes tile a 2×2 square horizontally or vertically
+        const result = countSolutions(2, 2, new Set(), new Map([['0-0', clue([[1, 1]], true)], ['1-1', clue([[1, 1]], true)]]), 10);
+        expect(result).toMatchObject({ count: 2, exact: true });
+    });
+
+    it('multiplies the counts of independent regions', () => {
+        const walls = new Set(['v-0-2', 'v-1-2']);
+        const dominoes = new Map([
+            ['0-0', clue([[1, 1]], true)], ['1-1', clue([[1, 1]], true)],
+            ['0-2', clue([[1, 1]], true)], ['1-3', clue([[1, 1]], true)],
+        ]);
+        expect(countSolutions(2, 4, walls, dominoes, 10).count).toBe(4);
+    });
+
+    it('stops at the limit', () => {
+        const result = countSolutions(2, 2, new Set(), new Map([['0-0', clue([[1, 1]], true)], ['1-1', clue([[1, 1]], true)]]), 1);
+        expect(result).toMatchObject({ count: 1, exact: false });
+    });
+
+    it('reports no solution', () => {
+        expect(countSolutions(1, 2, new Set(), new Map([['0-0', clue([[1, 1, 1]])]]), 10)).toMatchObject({ count: 0, exact: true });
+    });
+
+    it('tells same-shaped pieces of different colors apart only by position', () => {
+        // Swapping two identical shapes of different colors is not a second solution
+        const result = countSolutions(1, 2, new Set(), new Map([['0-0', clue([[1]], false, '#ff0000')], ['0-1', clue([[1]], false, '#0000ff')]]), 10);
+        expect(result.count).toBe(1);
+    });
+});
@@ -0,0 +1,103 @@
+import { hasMatchingArea } from '../puzzle/regions';
+import { ClueMini, Pattern } from '../puzzle/types';
+import { Search, SearchStats, createSearchStats, runSearch } from './search';
+import { Placement, enumerateRegionTilings, getClueRegions } from './tiling';
+
+
+export interface SolutionCount {
+    // At most `limit` solutions, each listing the placements of every region
+    solutions: Placement[][];
+    // Number of solutions; only a lower bound when `exact` is false
+    count: number;
+    exact: boolean;
+}
+
+
+// Pieces of the same shape but different colors are interchangeable in the
+// rules, so placements are told apart by their sign, shape and position only
+export const getPlacementKey = (placement: { pattern: Pattern; row: number; col: number; negative?: boolean }): string =>
+    `${placement.negative ? '-' : '+'}${JSON.stringify(placement.pattern)}@${placement.row},${placement.col}`;
+
+const getTilingKey = (placements: Placement[]): string => placements.map(getPlacementKey).sort().join(' ');
+
+
+// Distinct tilings of one region, stopping after `limit`
+export function* collectRegionTilings(
+    region: string[],
+    clues: { cellId: string; mini: ClueMini }[],
+    walls: Set<string>,
+    limit: number,
+    stats: SearchStats,
+): Search<Placement[][]> {
+    const seen = new Set<string>();
+    const tilings: Placement[][] = [];
+    yield* enumerateRegionTilings(region, clues, walls, stats, (placements) => {
+        const key = getTilingKey(placements);
+        if (!seen.has(key)) {
+            seen.add(key);
+            tilings.push(placements);
+        }
+        return tilings.length === limit;
+    });
+    return tilings;
+}
+
+
+export const countRegionTilings = (
+    region: string[],
+    clues: { cellId: string; mini: ClueMini }[],
+    walls: Set<string>,
+    limit: number,
+): number => runSearch(collectRegionTilings(region, clues, walls, limit, createSearchStats())).length;
+
+
+// Enumerates the distinct solutions of the tiling puzzle, stopping after `limit`.
+// Regions are independent, so solutions are the combinations of each region's tilings.
+export function* countSolutionsSearch(
+    rows: number,
+    cols: number,
+    walls: Set<string>,
+    cellMinis: Map<string, ClueMini>,
+    limit: number,
+    stats: SearchStats,
+): Search<SolutionCount> {
+    const none: SolutionCount = { solutions: [], count: 0, exact: true };
+    const regions = getClueRegions(rows, cols, walls, cellMinis);
+    if (regions.some(region => !hasMatchingArea(region.clues.map(clue => clue.mini), region.cells.length))) {
+        return none;
+    }
+
+    let exact = true;
+    const tilingsByRegion: Placement[][][] = [];
+    const frame: [number, number] = [0, regions.length];
+    stats.frames.push(frame);
+    for (const region of regions) {
+        const tilings = yield* collectRegionTilings(region.cells, region.clues, walls, limit, stats);
+        if (tilings.length === 0) {
+            stats.frames.pop();
+            return none;
+        }
+        // Stopping at the limit may have left tilings of this region unexplored
+        if (tilings.length === limit) exact = false;
+        tilingsByRegion.push(tilings);
+        frame[0]++;
+    }
+    stats.frames.pop();
+
+    const count = tilingsByRegion.reduce((product, tilings) => product * tilings.length, 1);
+    let solutions: Placement[][] = [[]];
+    for (const tilings of tilingsByRegion) {
+        const combined: Placement[][] = [];
+        for (const solution of solutions) {
+            for (const tiling of tilings) {
+                if (combined.length < limit) combined.push([...solution, ...tiling]);
+            }
+        }
+        solutions = combined;
+    }
+    return { solutions, count, exact };
+}
+
+
+export const countSolutions = (rows: number, cols: number, walls: Set<string>, cellMinis: Map<string, ClueMini>, limit: number): SolutionCount =>
+    runSearch(countSolutionsSearch(rows, cols, walls, cellMinis, limit, createSearchStats()));
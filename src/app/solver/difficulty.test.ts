@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ClueMini } from '../puzzle/types';
+import { getDifficultyLabel, rateDifficulty, scoreDifficulty } from './difficulty';
+
+
+const clue = (pattern: number[][], rotatable = false): ClueMini => ({ pattern, color: '#F5BE02', rotatable });
+
+
+describe('scoreDifficulty', () => {
+    it('scores puzzles of forced deductions lower than ones with real choices', () => {
+        const forced = scoreDifficulty({ regions: 1, nodes: 10, choices: 0, forced: 4, backtracks: 0, branchingFactor: 1 });
+        const branching = scoreDifficulty({ regions: 1, nodes: 100, choices: 8, forced: 2, backtracks: 5, branchingFactor: 3 });
+        expect(forced).toBe(0);
+        expect(branching).toBeGreaterThan(forced);
+        expect(getDifficultyLabel(branching)).not.toBe('Trivial');
+    });
+});
+
+
+describe('rateDifficulty', () => {
+    it('rates a puzzle with one forced tiling as trivial', () => {
+        const rating = rateDifficulty(1, 2, new Set(), new Map([['0-0', clue([[1, 1]])]]));
+        expect(rating).toMatchObject({ label: 'Trivial', solutions: 1, capped: false });
+    });
+
+    it('counts up to two solutions', () => {
+        const rating = rateDifficulty(2, 2, new Set(), new Map([['0-0', clue([[1, 1]], true)], ['1-1', clue([[1, 1]], true)]]));
+        expect(rating.solutions).toBe(2);
+    });
+});
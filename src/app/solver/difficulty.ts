@@ -0,0 +1,108 @@
+import { ClueMini } from '../puzzle/types';
+import { countSolutionsSearch } from './count';
+import { Search, SearchStats, createSearchStats, runSearch } from './search';
+import { getClueRegions } from './tiling';
+
+
+export type DifficultyLabel = 'Trivial' | 'Easy' | 'Medium' | 'Hard' | 'Expert';
+
+export interface DifficultyMetrics {
+    // Walled regions holding clues
+    regions: number;
+    nodes: number;
+    // Choice points with several candidate placements
+    choices: number;
+    // Choice points with a single candidate, i.e. forced deductions
+    forced: number;
+    // Choice points with no candidate, where the search had to go back
+    backtracks: number;
+    // Average number of candidates at a real choice point
+    branchingFactor: number;
+}
+
+export interface DifficultyRating {
+    // From 0 (nothing to think about) to 100
+    score: number;
+    label: DifficultyLabel;
+    metrics: DifficultyMetrics;
+    // 0, 1, or 2 for several solutions; null when the search was cut short
+    solutions: number | null;
+    // The search hit the node budget, so the puzzle is rated at the top of the scale
+    capped: boolean;
+}
+
+// Lowest score of each label, hardest first
+const LABEL_THRESHOLDS: [number, DifficultyLabel][] = [
+    [80, 'Expert'],
+    [55, 'Hard'],
+    [30, 'Medium'],
+    [10, 'Easy'],
+    [0, 'Trivial'],
+];
+
+export const DIFFICULTY_LABELS: DifficultyLabel[] = LABEL_THRESHOLDS.map(([, label]) => label).reverse();
+
+// Puzzles needing more nodes than this are rated Expert without finishing the search
+export const MAX_RATING_NODES = 200000;
+
+
+export const getDifficultyLabel = (score: number): DifficultyLabel =>
+    LABEL_THRESHOLDS.find(([threshold]) => score >= threshold)![1];
+
+
+// Real choices weigh the most; forced deductions make a puzzle feel easier
+export const scoreDifficulty = ({ regions, choices, forced, backtracks, branchingFactor }: DifficultyMetrics): number => {
+    const decisions = choices + forced;
+    const forcedShare = decisions > 0 ? forced / decisions : 1;
+    // Effort grows exponentially with difficulty, so counts are taken on a log scale
+    const raw = 5 * Math.log2(1 + choices)
+        + 3 * Math.log2(1 + backtracks)
+        + 4 * Math.max(0, branchingFactor - 1)
+        + Math.max(0, regions - 1)
+        - 5 * forcedShare;
+    return Math.round(Math.max(0, Math.min(100, raw)));
+};
+
+
+// Stops a search once it has explored `maxNodes` nodes, returning null instead
+function* withNodeBudget<T>(search: Search<T>, stats: SearchStats, maxNodes: number): Search<T | null> {
+    let step = search.next();
+    while (!step.done) {
+        if (stats.nodes >= maxNodes) return null;
+        yield;
+        step = search.next();
+    }
+    return step.value;
+}
+
+
+// Rates a tiling puzzle by the effort of finding its solution and ruling out a second one
+export function* rateDifficultySearch(
+    rows: number,
+    cols: number,
+    walls: Set<string>,
+    cellMinis: Map<string, ClueMini>,
+    stats: SearchStats,
+): Search<DifficultyRating> {
+    const result = yield* withNodeBudget(countSolutionsSearch(rows, cols, walls, cellMinis, 2, stats), stats, MAX_RATING_NODES);
+    const metrics: DifficultyMetrics = {
+        regions: getClueRegions(rows, cols, walls, cellMinis).length,
+        nodes: stats.nodes,
+        choices: stats.choices,
+        forced: stats.forced,
+        backtracks: stats.deadEnds,
+        branchingFactor: stats.choices > 0 ? (stats.branches - stats.forced) / stats.choices : 1,
+    };
+    const score = result ? scoreDifficulty(metrics) : 100;
+    return {
+        score,
+        label: getDifficultyLabel(score),
+        metrics,
+        solutions: result ? Math.min(result.count, 2) : null,
+        capped: !result,
+    };
+}
+
+
+export const rateDifficulty = (rows: number, cols: number, walls: Set<string>, cellMinis: Map<string, ClueMini>): DifficultyRating =>
+    runSearch(rateDifficultySearch(rows, cols, walls, cellMinis, createSearchStats()));
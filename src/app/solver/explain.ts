@@ -0,0 +1,128 @@
+import { countCells, getPatternCells, parseCellId } from '../puzzle/geometry';
+import { getLegalPlacements } from '../puzzle/heatmap';
+import { getClueArea, hasMatchingArea } from '../puzzle/regions';
+import { CellId, ClueMini, Pattern } from '../puzzle/types';
+import { getClueRegions } from './tiling';
+
+
+export type UnsolvabilityProof = 'area' | 'too-big' | 'unreachable' | 'parity' | 'search';
+
+export interface UnsolvabilityReason {
+    proof: UnsolvabilityProof;
+    region: CellId[];
+    // Cells to highlight
+    cells: CellId[];
+    message: string;
+}
+
+
+const describeRegion = (region: CellId[]): string => {
+    const [row, col] = parseCellId(region[0]);
+    return `Region starting at row ${row + 1}, column ${col + 1}`;
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const isDark = (row: number, col: number): boolean => (row + col) % 2 === 0;
+
+// Dark minus light blocks of a pattern on a checkerboard; placing it elsewhere only flips the sign
+const getParityImbalance = (pattern: Pattern): number =>
+    Math.abs(getPatternCells(pattern, 0, 0).reduce((sum, [row, col]) => sum + (isDark(row, col) ? 1 : -1), 0));
+
+
+// Checkerboard argument: each piece covers a fixed imbalance of dark and light
+// cells, up to its sign, and together they must match the region's imbalance
+const findParityProof = (region: CellId[], minis: ClueMini[]): UnsolvabilityReason | null => {
+    const dark = region.filter(cellId => isDark(...parseCellId(cellId)));
+    const light = region.length - dark.length;
+    const target = dark.length - light;
+
+    let reachable = new Set([0]);
+    for (const mini of minis) {
+        const imbalance = getParityImbalance(mini.pattern);
+        reachable = new Set([...reachable].flatMap(sum => [sum + imbalance, sum - imbalance]));
+    }
+    if (reachable.has(target)) return null;
+
+    const unbalanced = minis.filter(mini => getParityImbalance(mini.pattern) > 0);
+    const possible = [...new Set([...reachable].map(Math.abs))].sort((a, b) => a - b);
+    return {
+        proof: 'parity',
+        region,
+        // The colour in excess
+        cells: target >= 0 ? dark : region.filter(cellId => !dark.includes(cellId)),
+        message: `${describeRegion(region)} has ${dark.length} dark and ${light} light cells on a checkerboard, `
+            + `but ${unbalanced.length > 0 ? `its ${plural(unbalanced.length, 'unbalanced piece')} (like T shapes, always covering more of one colour)` : 'its pieces'} `
+            + `can only cover a difference of ${possible.join(' or ')}, never ${Math.abs(target)}`,
+    };
+};
+
+
+// Cheap reasons a tiling puzzle has no solution, found without searching:
+// area mismatches, pieces that fit nowhere, unreachable cells and checkerboard parity.
+// Returns an empty list when none applies, which doesn't mean the puzzle is solvable.
+export const findUnsolvabilityProofs = (
+    rows: number,
+    cols: number,
+    walls: Set<string>,
+    cellMinis: Map<string, ClueMini>,
+): UnsolvabilityReason[] => {
+    const reasons: UnsolvabilityReason[] = [];
+
+    for (const { cells: region, clues } of getClueRegions(rows, cols, walls, cellMinis)) {
+        const minis = clues.map(clue => clue.mini);
+        const where = describeRegion(region);
+
+        if (!hasMatchingArea(minis, region.length)) {
+            reasons.push({
+                proof: 'area',
+                region,
+                cells: region,
+                message: `${where} has ${plural(region.length, 'cell')} but its clues cover ${plural(getClueArea(minis), 'block')}`,
+            });
+            continue;
+        }
+
+        const regionSet = new Set(region);
+        const placements = clues.map(clue => getLegalPlacements(clue.mini.pattern, clue.mini.rotatable, regionSet, walls));
+        const misfits = clues.filter((_, index) => placements[index].length === 0);
+        if (misfits.length > 0) {
+            reasons.push({
+                proof: 'too-big',
+                region,
+                cells: misfits.map(clue => clue.cellId),
+                message: `${where}: ${misfits.length === 1 ? `the ${countCells(misfits[0].mini.pattern)}-block piece fits` : `${misfits.length} pieces fit`} nowhere inside it${misfits.some(clue => !clue.mini.rotatable) ? ' in its allowed rotation' : ''}`,
+            });
+            continue;
+        }
+
+        // Negative pieces let blocks stack up, so the remaining proofs assume plain covers
+        if (minis.some(mini => mini.negative)) continue;
+
+        const reachable = new Set(placements.flat(2));
+        const pockets = region.filter(cellId => !reachable.has(cellId));
+        if (pockets.length > 0) {
+            reasons.push({
+                proof: 'unreachable',
+                region,
+                cells: pockets,
+                message: `${where}: ${plural(pockets.length, 'cell')} can't be reached by any of its pieces, the space around ${pockets.length === 1 ? 'it is' : 'them is'} too small or walled off`,
+            });
+            continue;
+        }
+
+        const parity = findParityProof(region, minis);
+        if (parity) reasons.push(parity);
+    }
+
+    return reasons;
+};
+
+
+// Last resort once the cheap proofs found nothing: the solver tried every tiling
+export const getSearchProof = (region: CellId[]): UnsolvabilityReason => ({
+    proof: 'search',
+    region,
+    cells: region,
+    message: `${describeRegion(region)} can't be tiled by its clues: an exhaustive search tried every placement`,
+});
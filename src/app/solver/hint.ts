@@ -0,0 +1,180 @@
+import { countCells, getPatternCells, parseCellId } from '../puzzle/geometry';
+import { computePlacementHeatmap } from '../puzzle/heatmap';
+import { computeRegions, hasMatchingArea } from '../puzzle/regions';
+import { CellId, ClueMini, PlacedPiece } from '../puzzle/types';
+import { collectRegionTilings, getPlacementKey } from './count';
+import { Search, SearchStats, createSearchStats, runSearch } from './search';
+import { Placement } from './tiling';
+
+
+export type Hint =
+    // A placement every solution shares, given the pieces already on the grid
+    | { kind: 'placement'; placement: Placement; cells: CellId[]; message: string }
+    | { kind: 'unsolvable'; cells: CellId[]; message: string }
+    | { kind: 'none'; message: string };
+
+// Regions with more tilings than this are too open to draw a deduction from
+const HINT_TILING_LIMIT = 500;
+
+
+const describeRegion = (region: CellId[]): string => {
+    const [row, col] = parseCellId(region[0]);
+    return `the region starting at row ${row + 1}, column ${col + 1}`;
+};
+
+const describePiece = (placement: Placement): string =>
+    `${placement.negative ? 'negative ' : ''}${countCells(placement.pattern)}-block piece`;
+
+const getCellIds = (piece: { pattern: PlacedPiece['pattern']; row: number; col: number }): CellId[] =>
+    getPatternCells(piece.pattern, piece.row, piece.col).map(([r, c]) => `${r}-${c}`);
+
+
+// Whether a tiling holds every placed piece, counting repeated ones
+const containsPieces = (tiling: Placement[], pieceKeys: string[]): boolean => {
+    const remaining = tiling.map(getPlacementKey);
+    return pieceKeys.every(key => {
+        const index = remaining.indexOf(key);
+        if (index < 0) return false;
+        remaining.splice(index, 1);
+        return true;
+    });
+};
+
+
+// A cell of the forced piece that no other position of the remaining pieces can
+// cover, ignoring how the rest of the region would be filled
+const findNarrowCell = (
+    region: CellId[],
+    walls: Set<string>,
+    forced: Placement,
+    remaining: ClueMini[],
+    occupied: Set<CellId>,
+): CellId | null => {
+    const free = new Set(region.filter(cellId => !occupied.has(cellId)));
+    const coverCount = new Map<CellId, number>();
+    for (const mini of remaining) {
+        const { counts } = computePlacementHeatmap(mini.pattern, mini.rotatable, free, walls);
+        counts.forEach((count, cellId) => coverCount.set(cellId, (coverCount.get(cellId) ?? 0) + count));
+    }
+    return getCellIds(forced).find(cellId => coverCount.get(cellId) === 1) ?? null;
+};
+
+
+// Finds the next placement forced by the clues and the pieces already placed, or
+// explains why the current board can't be completed
+export function* findHintSearch(
+    rows: number,
+    cols: number,
+    walls: Set<string>,
+    cellMinis: Map<string, ClueMini>,
+    pieces: PlacedPiece[],
+    stats: SearchStats,
+): Search<Hint> {
+    const regions = computeRegions(rows, cols, walls);
+    const regionOf = new Map<CellId, number>();
+    regions.forEach((region, index) => region.forEach(cellId => regionOf.set(cellId, index)));
+
+    const piecesByRegion: PlacedPiece[][] = regions.map(() => []);
+    for (const piece of pieces) {
+        const cells = getCellIds(piece);
+        const pieceRegions = new Set(cells.map(cellId => regionOf.get(cellId)));
+        if (pieceRegions.size > 1 || pieceRegions.has(undefined)) {
+            return { kind: 'unsolvable', cells, message: 'A placed piece crosses a wall or the edge of the grid, so it can\'t be part of a solution' };
+        }
+        piecesByRegion[regionOf.get(cells[0])!].push(piece);
+    }
+
+    const candidates: { placement: Placement; message: string; tilings: number; narrow: boolean }[] = [];
+    let open = false;
+
+    for (const [index, region] of regions.entries()) {
+        const clues = region
+            .filter(cellId => cellMinis.has(cellId))
+            .map(cellId => ({ cellId, mini: cellMinis.get(cellId)! }));
+        const regionPieces = piecesByRegion[index];
+        const where = describeRegion(region);
+
+        if (clues.length === 0) {
+            if (regionPieces.length > 0) {
+                return { kind: 'unsolvable', cells: regionPieces.flatMap(getCellIds), message: `Remove the pieces from ${where}: it has no clues` };
+            }
+            continue;
+        }
+        if (!hasMatchingArea(clues.map(clue => clue.mini), region.length)) {
+            return { kind: 'unsolvable', cells: region, message: `The clues in ${where} don't add up to its size, so it can never be filled` };
+        }
+
+        const tilings = yield* collectRegionTilings(region, clues, walls, HINT_TILING_LIMIT, stats);
+        const complete = tilings.length < HINT_TILING_LIMIT;
+        const pieceKeys = regionPieces.map(getPlacementKey);
+        const consistent = tilings.filter(tiling => containsPieces(tiling, pieceKeys));
+
+        if (consistent.length === 0) {
+            if (!complete) {
+                open = true;
+                continue;
+            }
+            return regionPieces.length > 0
+                ? { kind: 'unsolvable', cells: regionPieces.flatMap(getCellIds), message: `The pieces placed in ${where} can't be completed into a solution: move or remove them` }
+                : { kind: 'unsolvable', cells: region, message: `${where[0].toUpperCase()}${where.slice(1)} can't be tiled by its clues` };
+        }
+
+        // Pieces in every remaining tiling, except the ones already placed
+        const unplaced = consistent[0].filter(placement => {
+            const keyIndex = pieceKeys.indexOf(getPlacementKey(placement));
+            if (keyIndex < 0) return true;
+            pieceKeys.splice(keyIndex, 1);
+            return false;
+        });
+        if (unplaced.length === 0) continue;
+        open = true;
+        if (!complete) continue;
+
+        const forced = unplaced.filter(placement =>
+            consistent.every(tiling => tiling.some(other => getPlacementKey(other) === getPlacementKey(placement))));
+        if (forced.length === 0) continue;
+
+        // Identical clues count once, so a spot isn't reached twice by the same shape
+        const remaining = [...new Map(unplaced
+            .map(placement => cellMinis.get(placement.clueCellId)!)
+            .map(mini => [`${mini.rotatable}|${JSON.stringify(mini.pattern)}`, mini])).values()];
+        const occupied = new Set(regionPieces.flatMap(getCellIds));
+        // Negative pieces let blocks overlap, which the tight-spot reasoning doesn't account for
+        const overlapping = clues.some(clue => clue.mini.negative);
+        for (const placement of forced) {
+            const narrowCell = overlapping ? null : findNarrowCell(region, walls, placement, remaining, occupied);
+            let message: string;
+            if (narrowCell) {
+                const [row, col] = parseCellId(narrowCell);
+                message = `Row ${row + 1}, column ${col + 1} is a tight spot: of the pieces left in ${where}, only this ${describePiece(placement)} fits over it`;
+            }
+            else if (unplaced.length === 1) {
+                message = `Only one piece is left for ${where}, and the ${describePiece(placement)} fills the remaining cells in a single way`;
+            }
+            else if (consistent.length === 1) {
+                message = `${where[0].toUpperCase()}${where.slice(1)} can only be filled one way, and it uses this ${describePiece(placement)}`;
+            }
+            else {
+                message = `All ${consistent.length} ways of filling ${where} put the ${describePiece(placement)} here`;
+            }
+            candidates.push({ placement, message, tilings: consistent.length, narrow: !!narrowCell });
+        }
+    }
+
+    // Prefer the most local reasoning, then the most constrained region
+    candidates.sort((a, b) => Number(b.narrow) - Number(a.narrow) || a.tilings - b.tilings);
+    const best = candidates[0];
+    if (best) {
+        return { kind: 'placement', placement: best.placement, cells: getCellIds(best.placement), message: best.message };
+    }
+    return {
+        kind: 'none',
+        message: open
+            ? 'No placement is forced yet: the remaining regions can still be filled in several ways. Place a piece and ask again.'
+            : 'Every region is filled: click Check to verify your solution',
+    };
+}
+
+
+export const findHint = (rows: number, cols: number, walls: Set<string>, cellMinis: Map<string, ClueMini>, pieces: PlacedPiece[]): Hint =>
+    runSearch(findHintSearch(rows, cols, walls, cellMinis, pieces, createSearchStats()));
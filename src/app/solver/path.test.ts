@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CellSymbol, ClueMini } from '../puzzle/types';
+import { solveLine } from './path';
+
+
+const clue = (pattern: number[][]): ClueMini => ({ pattern, color: '#F5BE02', rotatable: false });
+
+
+describe('solveLine', () => {
+    it('runs from the bottom-left to the top-right corner by default', () => {
+        const solution = solveLine(1, 1, new Map([['0-0', clue([[1]])]]));
+        expect(solution?.path[0]).toEqual([1, 0]);
+        expect(solution?.path[solution.path.length - 1]).toEqual([0, 1]);
+    });
+
+    it('splits the grid into regions its clues tile', () => {
+        // A single-cell clue in a 1×2 strip needs a line cutting the strip in two
+        const solution = solveLine(1, 2, new Map([['0-0', clue([[1]])]]));
+        expect(solution?.walls).toContain('v-0-1');
+        expect(solution?.placements).toMatchObject([{ row: 0, col: 0 }]);
+    });
+
+    it('avoids broken edges and covers every dot', () => {
+        const solution = solveLine(2, 2, new Map(), { brokenEdges: new Set(['h-2-0']), dots: new Set(['1-1', 'v-0-2']) });
+        expect(solution?.walls).not.toContain('h-2-0');
+        expect(solution?.walls).toContain('v-0-2');
+        expect(solution?.path).toContainEqual([1, 1]);
+    });
+
+    it('tries every start circle and end cap', () => {
+        // The first start is walled in by broken edges
+        const options = { starts: [[2, 2], [2, 0]] as [number, number][], ends: [[0, 2]] as [number, number][], brokenEdges: new Set(['h-2-1', 'v-1-2']) };
+        expect(solveLine(2, 2, new Map(), options)?.path[0]).toEqual([2, 0]);
+        expect(solveLine(2, 2, new Map(), { ...options, starts: [[2, 2]] })).toBeNull();
+    });
+
+    it('may pass an end cap on its way to another one', () => {
+        const solution = solveLine(2, 2, new Map(), { starts: [[2, 2]], ends: [[1, 2], [0, 0]], dots: new Set(['h-0-0']) });
+        expect(solution?.path).toContainEqual([1, 2]);
+        expect(solution?.path[solution.path.length - 1]).toEqual([0, 0]);
+    });
+
+    it('keeps squares of different colors apart', () => {
+        const cellSymbols = new Map<string, CellSymbol>([
+            ['0-0', { kind: 'square', color: '#000000' }],
+            ['1-1', { kind: 'square', color: '#ffffff' }],
+        ]);
+        const solution = solveLine(2, 2, new Map(), { cellSymbols });
+        expect(solution).not.toBeNull();
+        expect(solution!.walls.some(edgeId => edgeId === 'v-0-1' || edgeId === 'h-1-0')).toBe(true);
+    });
+
+    it('gives up when a star can never be paired', () => {
+        const star: CellSymbol = { kind: 'star', color: '#000000' };
+        expect(solveLine(2, 2, new Map(), { cellSymbols: new Map([['0-0', star], ['0-1', star], ['1-0', star]]) })).toBeNull();
+    });
+
+    it('lets an elimination mark cancel a clue nothing could tile', () => {
+        // The square clue can't fit in the strip, so the mark must share its region
+        const square = clue([[1, 1], [1, 1]]);
+        const cellSymbols = new Map<string, CellSymbol>([['0-0', { kind: 'tetris', ...square }], ['0-1', { kind: 'elimination' }]]);
+        const solution = solveLine(1, 2, new Map([['0-0', square]]), { cellSymbols });
+        expect(solution?.walls).not.toContain('v-0-1');
+        expect(solution?.placements).toEqual([]);
+    });
+
+    it('gives up when an elimination mark has nothing to cancel', () => {
+        expect(solveLine(1, 1, new Map(), { cellSymbols: new Map([['0-0', { kind: 'elimination' }]]) })).toBeNull();
+    });
+
+    it('gives up when no line works', () => {
+        // A 2×2 square can't fit a 1×3 strip whatever the line does
+        expect(solveLine(1, 3, new Map([['0-0', clue([[1, 1], [1, 1]])]]))).toBeNull();
+    });
+});
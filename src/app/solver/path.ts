@@ -0,0 +1,250 @@
+import { parseCellId } from '../puzzle/geometry';
+import { Vertex, edgeBetween, getEdgeVertices, isEdgeDot, parseVertexId } from '../puzzle/line';
+import { computeRegions, hasMatchingArea } from '../puzzle/regions';
+import { CellSymbol, ClueMini } from '../puzzle/types';
+import { ValidationIssue, applyEliminations, getSymbolIssues } from '../puzzle/validate';
+import { Search, SearchStats, countNode, createSearchStats, runSearch } from './search';
+import { Placement, tileRegionSearch } from './tiling';
+
+
+export interface LineOptions {
+    // The line may begin at any of these; defaults to the bottom-left corner, like most tetris panels in the game
+    starts?: Vertex[];
+    // The line may finish at any of these; defaults to the top-right corner
+    ends?: Vertex[];
+    // Edges the line can't pass through
+    brokenEdges?: Set<string>;
+    // Vertices and edges the line must pass through
+    dots?: Set<string>;
+    // Squares, stars and elimination marks of the sealed regions
+    cellSymbols?: Map<string, CellSymbol>;
+}
+
+export interface LineSolution {
+    path: Vertex[];
+    walls: string[];
+    placements: Placement[];
+}
+
+
+// Cells on both sides of the edge joining two adjacent vertices (null outside the grid)
+const cellsAcross = (rows: number, cols: number, a: Vertex, b: Vertex): [string | null, string | null] => {
+    const inGrid = (row: number, col: number) => row >= 0 && row < rows && col >= 0 && col < cols ? `${row}-${col}` : null;
+    if (a[0] === b[0]) {
+        const col = Math.min(a[1], b[1]);
+        return [inGrid(a[0] - 1, col), inGrid(a[0], col)];
+    }
+    const row = Math.min(a[0], b[0]);
+    return [inGrid(row, a[1] - 1), inGrid(row, a[1])];
+};
+
+
+// Depth-first search over self-avoiding start-to-end paths. Regions the rest of the
+// path can no longer split are checked as soon as they are sealed off.
+export function* solveLineSearch(
+    rows: number,
+    cols: number,
+    cellMinis: Map<string, ClueMini>,
+    options: LineOptions,
+    stats: SearchStats,
+): Search<LineSolution | null> {
+    const starts: Vertex[] = options.starts?.length ? options.starts : [[rows, 0]];
+    const vertexKey = ([row, col]: Vertex) => row * (cols + 1) + col;
+    const endKeys = new Set((options.ends?.length ? options.ends : [[0, cols] as Vertex]).map(vertexKey));
+    const brokenEdges = options.brokenEdges ?? new Set<string>();
+    const cellSymbols = options.cellSymbols ?? new Map<string, CellSymbol>();
+
+    const visited = new Uint8Array((rows + 1) * (cols + 1));
+    const path: Vertex[] = [];
+    const walls = new Set<string>();
+    const tilingCache = new Map<string, Placement[] | null>();
+
+    // Each dot as the vertices the line may cover it from: both ends of an edge dot are needed
+    const dots = [...options.dots ?? []].map(dotId => ({
+        dotId,
+        edge: isEdgeDot(dotId),
+        vertices: isEdgeDot(dotId) ? getEdgeVertices(dotId) : [parseVertexId(dotId)],
+    }));
+    const isCovered = ({ dotId, edge, vertices }: typeof dots[number]) =>
+        edge ? walls.has(dotId) : visited[vertexKey(vertices[0])] === 1;
+
+    const neighbours = ([row, col]: Vertex): Vertex[] => {
+        const result: Vertex[] = [];
+        if (row > 0) result.push([row - 1, col]);
+        if (col < cols) result.push([row, col + 1]);
+        if (row < rows) result.push([row + 1, col]);
+        if (col > 0) result.push([row, col - 1]);
+        return result.filter(next => !brokenEdges.has(edgeBetween([row, col], next)));
+    };
+
+    function* tileCached(cells: string[], minis: Map<string, ClueMini>): Search<Placement[] | null> {
+        const clues = cells
+            .filter(cellId => minis.has(cellId))
+            .map(cellId => ({ cellId, mini: minis.get(cellId)! }));
+        if (clues.length === 0) return [];
+        if (!hasMatchingArea(clues.map(clue => clue.mini), cells.length)) return null;
+
+        // Path edges ending inside a region (dead ends) still block pieces, so they are part of the key
+        const cellSet = new Set(cells);
+        const innerWalls = cells.flatMap(cellId => {
+            const [row, col] = parseCellId(cellId);
+            const blocked: string[] = [];
+            if (cellSet.has(`${row}-${col + 1}`) && walls.has(`v-${row}-${col + 1}`)) blocked.push(`v-${row}-${col + 1}`);
+            if (cellSet.has(`${row + 1}-${col}`) && walls.has(`h-${row + 1}-${col}`)) blocked.push(`h-${row + 1}-${col}`);
+            return blocked;
+        });
+        // Clues cancelled by elimination marks leave other clues to tile the same cells
+        const key = `${cells.join(',')}|${innerWalls.join(',')}|${clues.map(clue => clue.cellId).join(',')}`;
+        if (!tilingCache.has(key)) {
+            tilingCache.set(key, yield* tileRegionSearch(cells, clues, walls, stats));
+        }
+        return tilingCache.get(key)!;
+    }
+
+    // Regions with elimination marks go through the validator's search over what the
+    // marks cancel. Its tilings run to the end without yielding, as there are few choices.
+    const settleEliminations = (cells: string[]): Placement[] | null => {
+        const symbols = new Map(cells.flatMap(cellId => {
+            const symbol = cellSymbols.get(cellId);
+            return symbol ? [[cellId, symbol] as const] : [];
+        }));
+        const tile = (active: Map<string, CellSymbol>) => {
+            const minis = new Map<string, ClueMini>();
+            active.forEach((symbol, cellId) => {
+                if (symbol.kind === 'tetris') minis.set(cellId, symbol);
+            });
+            return runSearch(tileCached(cells, minis));
+        };
+        const check = (active: Map<string, CellSymbol>): ValidationIssue[] => {
+            const issues = getSymbolIssues(cells, active, '');
+            if (!tile(active)) issues.push({ kind: 'missing-piece', message: 'The clues can\'t tile the region', cells: [], walls: [] });
+            return issues;
+        };
+
+        const { issues, cancelled } = applyEliminations(symbols, check, '');
+        if (issues.length > 0) return null;
+        return tile(new Map([...symbols].filter(([cellId, symbol]) => symbol.kind !== 'elimination' && !cancelled.includes(cellId))));
+    };
+
+    // Returns the placements of every sealed region, or null if one of them can't be tiled
+    function* checkSealedRegions(complete: boolean): Search<Placement[] | null> {
+        const regions = computeRegions(rows, cols, walls);
+        const regionOf = new Map<string, number>();
+        regions.forEach((cells, index) => cells.forEach(cellId => regionOf.set(cellId, index)));
+
+        const open = new Set<number>();
+        if (!complete) {
+            // Vertices the remaining path can still use
+            const head = path[path.length - 1];
+            const reachable = new Set<number>([vertexKey(head)]);
+            const stack: Vertex[] = [head];
+            while (stack.length > 0) {
+                const vertex = stack.pop()!;
+                for (const next of neighbours(vertex)) {
+                    const key = vertexKey(next);
+                    if (visited[key] || reachable.has(key)) continue;
+                    reachable.add(key);
+                    stack.push(next);
+                }
+            }
+            if (![...endKeys].some(key => reachable.has(key))) return null;
+            // Dots left behind can't be picked up anymore
+            if (dots.some(dot => !isCovered(dot) && dot.vertices.some(vertex => !reachable.has(vertexKey(vertex))))) return null;
+
+            // A region stays open while a usable edge could still cut through it
+            for (let row = 0; row <= rows; row++) {
+                for (let col = 0; col <= cols; col++) {
+                    if (!reachable.has(vertexKey([row, col]))) continue;
+                    const forward: Vertex[] = [[row, col + 1], [row + 1, col]];
+                    for (const next of forward) {
+                        if (next[0] > rows || next[1] > cols || !reachable.has(vertexKey(next))) continue;
+                        const [a, b] = cellsAcross(rows, cols, [row, col], next);
+                        if (a && b && regionOf.get(a) === regionOf.get(b)) {
+                            open.add(regionOf.get(a)!);
+                        }
+                    }
+                }
+            }
+        }
+
+        const placements: Placement[] = [];
+        for (let index = 0; index < regions.length; index++) {
+            if (open.has(index)) continue;
+            if (regions[index].some(cellId => cellSymbols.get(cellId)?.kind === 'elimination')) {
+                // A mark may cancel whatever breaks, so its region waits for the finished line
+                if (!complete) continue;
+                const regionPlacements = settleEliminations(regions[index]);
+                if (!regionPlacements) return null;
+                placements.push(...regionPlacements);
+                continue;
+            }
+            if (cellSymbols.size > 0 && getSymbolIssues(regions[index], cellSymbols, '').length > 0) return null;
+            const regionPlacements = yield* tileCached(regions[index], cellMinis);
+            if (!regionPlacements) return null;
+            placements.push(...regionPlacements);
+        }
+        return placements;
+    }
+
+    let solution: LineSolution | null = null;
+
+    function* extend(): Search<boolean> {
+        if (countNode(stats)) yield;
+
+        // The line may finish on an end cap, or go on past it towards another one
+        const head = path[path.length - 1];
+        if (path.length > 1 && endKeys.has(vertexKey(head)) && dots.every(isCovered)) {
+            const placements = yield* checkSealedRegions(true);
+            if (placements) {
+                solution = { path: [...path], walls: [...walls], placements };
+                return true;
+            }
+        }
+
+        // Regions only change when the line closes onto the border or onto itself
+        const prev = path[path.length - 2];
+        const closesRegion = head[0] === 0 || head[0] === rows || head[1] === 0 || head[1] === cols
+            || neighbours(head).some(next => visited[vertexKey(next)] && (!prev || vertexKey(next) !== vertexKey(prev)));
+        if (path.length > 1 && closesRegion && !(yield* checkSealedRegions(false))) return false;
+
+        const candidates = neighbours(head).filter(next => !visited[vertexKey(next)]);
+        const frame: [number, number] = [0, candidates.length];
+        stats.frames.push(frame);
+        for (const next of candidates) {
+            const key = vertexKey(next);
+            const edge = edgeBetween(head, next);
+            visited[key] = 1;
+            walls.add(edge);
+            path.push(next);
+
+            if (yield* extend()) {
+                stats.frames.pop();
+                return true;
+            }
+
+            path.pop();
+            walls.delete(edge);
+            visited[key] = 0;
+            frame[0]++;
+        }
+        stats.frames.pop();
+        return false;
+    }
+
+    const frame: [number, number] = [0, starts.length];
+    stats.frames.push(frame);
+    for (const start of starts) {
+        visited[vertexKey(start)] = 1;
+        path.push(start);
+        if (yield* extend()) break;
+        path.pop();
+        visited[vertexKey(start)] = 0;
+        frame[0]++;
+    }
+    stats.frames.pop();
+    return solution;
+}
+
+
+export const solveLine = (rows: number, cols: number, cellMinis: Map<string, ClueMini>, options: LineOptions = {}): LineSolution | null =>
+    runSearch(solveLineSearch(rows, cols, cellMinis, options, createSearchStats()));
@@ -0,0 +1,45 @@
+import { CalibratedPuzzle, GeneratorOptions } from '../generator/generate';
+import { ClueMini, PlacedPiece } from '../puzzle/types';
+import { CompletionResult } from './complete';
+import { SolutionCount } from './count';
+import { DifficultyRating } from './difficulty';
+import { Hint } from './hint';
+import { LineOptions, LineSolution } from './path';
+import { Placement } from './tiling';
+
+
+export type SolverJob =
+    | { kind: 'tiling'; rows: number; cols: number; walls: Set<string>; cellMinis: Map<string, ClueMini> }
+    | { kind: 'line'; rows: number; cols: number; cellMinis: Map<string, ClueMini>; options: LineOptions }
+    | { kind: 'count'; rows: number; cols: number; walls: Set<string>; cellMinis: Map<string, ClueMini>; limit: number }
+    | { kind: 'rate'; rows: number; cols: number; walls: Set<string>; cellMinis: Map<string, ClueMini> }
+    | { kind: 'hint'; rows: number; cols: number; walls: Set<string>; cellMinis: Map<string, ClueMini>; pieces: PlacedPiece[] }
+    | { kind: 'complete'; rows: number; cols: number; walls: Set<string>; cellMinis: Map<string, ClueMini>; fixed: PlacedPiece[] }
+    | { kind: 'generate'; options: GeneratorOptions };
+
+export type SolverSolution =
+    | { kind: 'tiling'; placements: Placement[] }
+    | { kind: 'line'; solution: LineSolution }
+    | { kind: 'count'; result: SolutionCount }
+    | { kind: 'rate'; rating: DifficultyRating }
+    | { kind: 'hint'; hint: Hint }
+    | { kind: 'complete'; result: CompletionResult }
+    | { kind: 'generate'; result: CalibratedPuzzle };
+
+export interface SolverFailure {
+    region: string[];
+    reason: 'area' | 'no-tiling';
+}
+
+// 'error' means the search threw, or the worker itself failed
+export type SolverOutcome = 'solved' | 'unsolvable' | 'cancelled' | 'error';
+
+// Messages posted to the solver worker
+export type SolverRequest =
+    | { type: 'start'; jobId: number; job: SolverJob }
+    | { type: 'cancel'; jobId: number };
+
+// Messages posted back by the solver worker
+export type SolverResponse =
+    | { type: 'progress'; jobId: number; nodes: number; progress: number }
+    | { type: 'done'; jobId: number; nodes: number; outcome: SolverOutcome; solution?: SolverSolution; failure?: SolverFailure; error?: string };
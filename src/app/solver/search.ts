@@ -0,0 +1,55 @@
+// Searches are generators that pause every YIELD_INTERVAL nodes, so a caller
+// (the solver worker) can report progress and stop them between slices.
+export type Search<T> = Generator<void, T, void>;
+
+export const YIELD_INTERVAL = 1024;
+
+export interface SearchStats {
+    nodes: number;
+    // [branch being explored, branch count] for each level of the current search path
+    frames: [number, number][];
+    // Choice points by number of branches, for the difficulty rating
+    forced: number;
+    choices: number;
+    deadEnds: number;
+    branches: number;
+}
+
+
+export const createSearchStats = (): SearchStats => ({ nodes: 0, frames: [], forced: 0, choices: 0, deadEnds: 0, branches: 0 });
+
+
+// Records a choice point offering `count` branches
+export const countBranches = (stats: SearchStats, count: number) => {
+    if (count === 0) stats.deadEnds++;
+    else if (count === 1) stats.forced++;
+    else stats.choices++;
+    stats.branches += count;
+};
+
+
+// Counts a node; the caller should `yield` when this returns true
+export const countNode = (stats: SearchStats): boolean => ++stats.nodes % YIELD_INTERVAL === 0;
+
+
+// Share of the search tree already explored, assuming branches of equal size
+export const estimateProgress = (stats: SearchStats): number => {
+    let fraction = 0;
+    let weight = 1;
+    for (const [index, count] of stats.frames) {
+        if (count === 0) break;
+        weight /= count;
+        fraction += index * weight;
+    }
+    return Math.min(1, fraction);
+};
+
+
+// Runs a search to completion on the current thread
+export const runSearch = <T>(search: Search<T>): T => {
+    let step = search.next();
+    while (!step.done) {
+        step = search.next();
+    }
+    return step.value;
+};
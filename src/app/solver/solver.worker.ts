@@ -0,0 +1,121 @@
+/// <reference lib="webworker" />
+import { generateCalibratedSearch } from '../generator/generate';
+import { completeSearch } from './complete';
+import { countSolutionsSearch } from './count';
+import { rateDifficultySearch } from './difficulty';
+import { findHintSearch } from './hint';
+import { solveLineSearch } from './path';
+import { SolverFailure, SolverJob, SolverRequest, SolverResponse, SolverSolution } from './protocol';
+import { Search, SearchStats, createSearchStats, estimateProgress } from './search';
+import { solveTilingSearch } from './tiling';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// How long the search runs before yielding to the message queue
+const SLICE_MS = 50;
+
+interface JobResult {
+    solution: SolverSolution | null;
+    failure?: SolverFailure;
+}
+
+interface RunningJob {
+    jobId: number;
+    search: Search<JobResult>;
+    stats: SearchStats;
+}
+
+let current: RunningJob | null = null;
+
+
+const post = (message: SolverResponse) => self.postMessage(message);
+
+
+function* runJob(job: SolverJob, stats: SearchStats): Search<JobResult> {
+    if (job.kind === 'tiling') {
+        const result = yield* solveTilingSearch(job.rows, job.cols, job.walls, job.cellMinis, stats);
+        if (!result.solved) {
+            return { solution: null, failure: { region: result.region, reason: result.reason } };
+        }
+        return { solution: { kind: 'tiling', placements: result.placements } };
+    }
+
+    if (job.kind === 'count') {
+        const result = yield* countSolutionsSearch(job.rows, job.cols, job.walls, job.cellMinis, job.limit, stats);
+        return { solution: { kind: 'count', result } };
+    }
+
+    if (job.kind === 'rate') {
+        const rating = yield* rateDifficultySearch(job.rows, job.cols, job.walls, job.cellMinis, stats);
+        return { solution: { kind: 'rate', rating } };
+    }
+
+    if (job.kind === 'hint') {
+        const hint = yield* findHintSearch(job.rows, job.cols, job.walls, job.cellMinis, job.pieces, stats);
+        return { solution: { kind: 'hint', hint } };
+    }
+
+    if (job.kind === 'complete') {
+        const result = yield* completeSearch(job.rows, job.cols, job.walls, job.cellMinis, job.fixed, stats);
+        return { solution: { kind: 'complete', result } };
+    }
+
+    if (job.kind === 'generate') {
+        const result = yield* generateCalibratedSearch(job.options, stats);
+        return { solution: { kind: 'generate', result } };
+    }
+
+    const solution = yield* solveLineSearch(job.rows, job.cols, job.cellMinis, job.options, stats);
+    return { solution: solution && { kind: 'line', solution } };
+}
+
+
+const pump = (run: RunningJob) => {
+    // A newer job or a cancel request replaced this one
+    if (run !== current) return;
+
+    const sliceEnd = performance.now() + SLICE_MS;
+    let step: IteratorResult<void, JobResult>;
+    try {
+        step = run.search.next();
+        while (!step.done && performance.now() < sliceEnd) {
+            step = run.search.next();
+        }
+    }
+    catch (error) {
+        // A malformed job must still end, or the page would wait for it forever
+        current = null;
+        post({ type: 'done', jobId: run.jobId, nodes: run.stats.nodes, outcome: 'error', error: error instanceof Error ? error.message : String(error) });
+        return;
+    }
+
+    if (!step.done) {
+        post({ type: 'progress', jobId: run.jobId, nodes: run.stats.nodes, progress: estimateProgress(run.stats) });
+        setTimeout(() => pump(run), 0);
+        return;
+    }
+
+    current = null;
+    const { solution, failure } = step.value;
+    post({ type: 'done', jobId: run.jobId, nodes: run.stats.nodes, outcome: solution ? 'solved' : 'unsolvable', solution: solution ?? undefined, failure });
+};
+
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'start') {
+        if (current) {
+            post({ type: 'done', jobId: current.jobId, nodes: current.stats.nodes, outcome: 'cancelled' });
+        }
+        const stats = createSearchStats();
+        current = { jobId: request.jobId, search: runJob(request.job, stats), stats };
+        pump(current);
+        return;
+    }
+
+    if (request.type === 'cancel' && current?.jobId === request.jobId) {
+        post({ type: 'done', jobId: current.jobId, nodes: current.stats.nodes, outcome: 'cancelled' });
+        current = null;
+    }
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ClueMini } from '../puzzle/types';
+import { getOrientations, solveTiling } from './tiling';
+
+
+const clue = (pattern: number[][], rotatable = false): ClueMini => ({ pattern, color: '#F5BE02', rotatable });
+
+const negativeClue = (pattern: number[][]): ClueMini => ({ ...clue(pattern), negative: true });
+
+
+describe('getOrientations', () => {
+    it('gives one orientation for a square and four for an L', () => {
+        expect(getOrientations([[1, 1], [1, 1]])).toHaveLength(1);
+        expect(getOrientations([[1, 0], [1, 0], [1, 1]])).toHaveLength(4);
+    });
+
+    it('gives two orientations for a straight piece', () => {
+        expect(getOrientations([[1, 1, 1]]).map(orientation => orientation.pattern)).toEqual([[[1, 1, 1]], [[1], [1], [1]]]);
+    });
+});
+
+
+describe('solveTiling', () => {
+    it('tiles a region with the pieces of its clues', () => {
+        // Two 1×2 clues in a 2×2 grid
+        const result = solveTiling(2, 2, new Set(), new Map([['0-0', clue([[1, 1]])], ['1-1', clue([[1, 1]])]]));
+        expect(result.solved).toBe(true);
+        if (!result.solved) return;
+        expect(result.placements.map(({ row, col }) => [row, col]).sort()).toEqual([[0, 0], [1, 0]]);
+    });
+
+    it('only rotates tilted clues', () => {
+        // The left column needs a vertical domino
+        const walls = new Set(['v-0-1', 'v-1-1']);
+        expect(solveTiling(2, 2, walls, new Map([['0-0', clue([[1, 1]])]])).solved).toBe(false);
+        expect(solveTiling(2, 2, walls, new Map([['0-0', clue([[1, 1]], true)]]))).toMatchObject({
+            solved: true,
+            placements: [{ pattern: [[1], [1]], row: 0, col: 0, rotation: 90 }],
+        });
+    });
+
+    it('reports a region whose area does not match its clues', () => {
+        const result = solveTiling(2, 2, new Set(), new Map([['0-0', clue([[1, 1, 1]])]]));
+        expect(result).toEqual({ solved: false, region: ['0-0', '0-1', '1-0', '1-1'], reason: 'area' });
+    });
+
+    it('stacks positive pieces over negative ones', () => {
+        // The negative domino makes two cells of the strip need a second block
+        const clues = new Map([['0-0', clue([[1, 1, 1]])], ['0-1', clue([[1, 1]])], ['0-2', negativeClue([[1, 1]])]]);
+        const result = solveTiling(1, 3, new Set(), clues);
+        expect(result).toMatchObject({ solved: true });
+        if (!result.solved) return;
+        expect(result.placements.filter(placement => placement.negative)).toHaveLength(1);
+    });
+
+    it('reports a region the pieces cannot cover', () => {
+        // A 2×2 square has the area of a 1×4 strip but never fits in it
+        const result = solveTiling(1, 4, new Set(), new Map([['0-0', clue([[1, 1], [1, 1]], true)]]));
+        expect(result).toMatchObject({ solved: false, reason: 'no-tiling' });
+    });
+});
@@ -0,0 +1,314 @@
+import { parseCellId, rotatePattern } from '../puzzle/geometry';
+import { computeRegions, getClueArea, hasMatchingArea, isWallBetween } from '../puzzle/regions';
+import { ClueMini, Pattern, PlacedPiece } from '../puzzle/types';
+import { Search, SearchStats, countBranches, countNode, createSearchStats, runSearch } from './search';
+
+
+export interface Placement {
+    clueCellId: string;
+    pattern: Pattern;
+    originalPattern: Pattern;
+    color: string;
+    negative: boolean;
+    row: number;
+    col: number;
+    rotation: number;
+}
+
+export type TilingResult =
+    | { solved: true; placements: Placement[] }
+    | { solved: false; region: string[]; reason: 'area' | 'no-tiling' };
+
+interface Orientation {
+    pattern: Pattern;
+    rotation: number;
+    // Filled cells relative to the first filled cell (row-major)
+    offsets: [number, number][];
+    // Position of that first filled cell inside the pattern
+    anchor: [number, number];
+    // Pairs of adjacent offsets, used to reject placements crossing a wall
+    links: [number, number][];
+}
+
+interface ClueKind {
+    clues: { cellId: string; mini: ClueMini }[];
+    orientations: Orientation[];
+}
+
+
+const buildOrientation = (pattern: Pattern, rotation: number): Orientation => {
+    const filled: [number, number][] = [];
+    pattern.forEach((row, i) => row.forEach((v, j) => {
+        if (v) filled.push([i, j]);
+    }));
+    const anchor = filled[0];
+    const offsets = filled.map(([i, j]) => [i - anchor[0], j - anchor[1]] as [number, number]);
+
+    const links: [number, number][] = [];
+    for (let a = 0; a < offsets.length; a++) {
+        for (let b = a + 1; b < offsets.length; b++) {
+            const dr = Math.abs(offsets[a][0] - offsets[b][0]);
+            const dc = Math.abs(offsets[a][1] - offsets[b][1]);
+            if (dr + dc === 1) links.push([a, b]);
+        }
+    }
+
+    return { pattern, rotation, offsets, anchor, links };
+};
+
+
+// Distinct orientations of a pattern (symmetric pieces yield fewer than four)
+export const getOrientations = (pattern: Pattern): Orientation[] => {
+    const orientations: Orientation[] = [];
+    const seen = new Set<string>();
+    let current = pattern;
+    for (let rotation = 0; rotation < 360; rotation += 90) {
+        const key = JSON.stringify(current);
+        if (!seen.has(key)) {
+            seen.add(key);
+            orientations.push(buildOrientation(current, rotation));
+        }
+        current = rotatePattern(current);
+    }
+    return orientations;
+};
+
+
+const groupClueKinds = (clues: { cellId: string; mini: ClueMini }[]): ClueKind[] => {
+    // Identical clues are interchangeable, so try each kind only once per cell
+    const kindsByKey = new Map<string, ClueKind>();
+    for (const clue of clues) {
+        const { pattern, color, rotatable } = clue.mini;
+        const key = `${color}|${rotatable}|${JSON.stringify(pattern)}`;
+        const kind = kindsByKey.get(key);
+        if (kind) {
+            kind.clues.push(clue);
+        }
+        else {
+            // Upright clues keep the orientation they are drawn in
+            const orientations = rotatable ? getOrientations(pattern) : [buildOrientation(pattern, 0)];
+            kindsByKey.set(key, { clues: [clue], orientations });
+        }
+    }
+    return [...kindsByKey.values()];
+};
+
+
+// Exact cover of one region by its clue pieces. Negative pieces are placed first,
+// each adding one to the number of positive blocks its cells need. Then the first
+// cell (row-major) still needing a block must be the first filled cell of whichever
+// positive piece covers it next.
+// Each complete tiling is passed to onTiling, which returns true to stop the search.
+export function* enumerateRegionTilings(
+    region: string[],
+    clues: { cellId: string; mini: ClueMini }[],
+    walls: Set<string>,
+    stats: SearchStats,
+    onTiling: (placements: Placement[]) => boolean,
+): Search<boolean> {
+    const regionSet = new Set(region);
+    // Positive blocks each cell still needs: one, or none when the clues cancel out
+    const target = getClueArea(clues.map(clue => clue.mini)) === 0 ? 0 : 1;
+    const needed = new Map(region.map(cellId => [cellId, target]));
+    const placements: Placement[] = [];
+
+    const kinds = groupClueKinds(clues.filter(clue => !clue.mini.negative));
+    const used = kinds.map(() => 0);
+    const negativeKinds = groupClueKinds(clues.filter(clue => clue.mini.negative));
+
+    const fits = (orientation: Orientation, row: number, col: number, overlapping: boolean): string[] | null => {
+        const cells: string[] = [];
+        for (const [dr, dc] of orientation.offsets) {
+            const cellId = `${row + dr}-${col + dc}`;
+            if (!regionSet.has(cellId) || (!overlapping && needed.get(cellId) === 0)) return null;
+            cells.push(cellId);
+        }
+        for (const [a, b] of orientation.links) {
+            const [rowA, colA] = orientation.offsets[a];
+            const [rowB, colB] = orientation.offsets[b];
+            if (isWallBetween(walls, row + rowA, col + colA, row + rowB, col + colB)) return null;
+        }
+        return cells;
+    };
+
+    const place = (clue: { cellId: string; mini: ClueMini }, orientation: Orientation, row: number, col: number) => {
+        placements.push({
+            clueCellId: clue.cellId,
+            pattern: orientation.pattern,
+            originalPattern: clue.mini.pattern,
+            color: clue.mini.color,
+            negative: !!clue.mini.negative,
+            row: row - orientation.anchor[0],
+            col: col - orientation.anchor[1],
+            rotation: orientation.rotation,
+        });
+    };
+
+    function* search(start: number): Search<boolean> {
+        if (countNode(stats)) yield;
+
+        let index = start;
+        while (index < region.length && needed.get(region[index]) === 0) index++;
+        if (index === region.length) return onTiling([...placements]);
+
+        const [row, col] = parseCellId(region[index]);
+        const candidates: { kindIndex: number; orientation: Orientation; cells: string[] }[] = [];
+        kinds.forEach((kind, kindIndex) => {
+            if (used[kindIndex] === kind.clues.length) return;
+            for (const orientation of kind.orientations) {
+                const cells = fits(orientation, row, col, false);
+                if (cells) candidates.push({ kindIndex, orientation, cells });
+            }
+        });
+
+        countBranches(stats, candidates.length);
+        const frame: [number, number] = [0, candidates.length];
+        stats.frames.push(frame);
+        for (const { kindIndex, orientation, cells } of candidates) {
+            const clue = kinds[kindIndex].clues[used[kindIndex]];
+            used[kindIndex]++;
+            cells.forEach(cellId => needed.set(cellId, needed.get(cellId)! - 1));
+            place(clue, orientation, row, col);
+
+            // A cell needing several blocks stays first until it's fully covered
+            if (yield* search(index)) {
+                stats.frames.pop();
+                return true;
+            }
+
+            placements.pop();
+            cells.forEach(cellId => needed.set(cellId, needed.get(cellId)! + 1));
+            used[kindIndex]--;
+            frame[0]++;
+        }
+        stats.frames.pop();
+        return false;
+    }
+
+    // Every spot where each negative kind fits in the region, overlaps allowed
+    const negativeSpots = negativeKinds.map(kind => kind.orientations.flatMap(orientation =>
+        region.flatMap(cellId => {
+            const [row, col] = parseCellId(cellId);
+            const cells = fits(orientation, row, col, true);
+            return cells ? [{ orientation, row, col, cells }] : [];
+        })));
+    const negatives = negativeKinds.flatMap((kind, kindIndex) => kind.clues.map(clue => ({ clue, kindIndex })));
+
+    // Identical negatives take spots in increasing order, so each set of spots is tried once
+    function* placeNegatives(index: number, firstSpot: number): Search<boolean> {
+        if (index === negatives.length) return yield* search(0);
+        if (countNode(stats)) yield;
+
+        const { clue, kindIndex } = negatives[index];
+        const spots = negativeSpots[kindIndex];
+        countBranches(stats, spots.length - firstSpot);
+        const frame: [number, number] = [0, spots.length - firstSpot];
+        stats.frames.push(frame);
+        for (let spotIndex = firstSpot; spotIndex < spots.length; spotIndex++) {
+            const { orientation, row, col, cells } = spots[spotIndex];
+            cells.forEach(cellId => needed.set(cellId, needed.get(cellId)! + 1));
+            place(clue, orientation, row, col);
+
+            const next = negatives[index + 1];
+            if (yield* placeNegatives(index + 1, next?.kindIndex === kindIndex ? spotIndex : 0)) {
+                stats.frames.pop();
+                return true;
+            }
+
+            placements.pop();
+            cells.forEach(cellId => needed.set(cellId, needed.get(cellId)! - 1));
+            frame[0]++;
+        }
+        stats.frames.pop();
+        return false;
+    }
+
+    return yield* placeNegatives(0, 0);
+}
+
+
+export function* tileRegionSearch(
+    region: string[],
+    clues: { cellId: string; mini: ClueMini }[],
+    walls: Set<string>,
+    stats: SearchStats,
+): Search<Placement[] | null> {
+    let tiling: Placement[] | null = null;
+    yield* enumerateRegionTilings(region, clues, walls, stats, (placements) => {
+        tiling = placements;
+        return true;
+    });
+    return tiling;
+}
+
+
+export const tileRegion = (region: string[], clues: { cellId: string; mini: ClueMini }[], walls: Set<string>): Placement[] | null =>
+    runSearch(tileRegionSearch(region, clues, walls, createSearchStats()));
+
+
+// Wall-bounded regions holding at least one clue
+export const getClueRegions = (rows: number, cols: number, walls: Set<string>, cellMinis: Map<string, ClueMini>) =>
+    computeRegions(rows, cols, walls)
+        .map(region => ({
+            cells: region,
+            clues: region
+                .filter(cellId => cellMinis.has(cellId))
+                .map(cellId => ({ cellId, mini: cellMinis.get(cellId)! })),
+        }))
+        .filter(region => region.clues.length > 0);
+
+
+// Tile every wall-bounded region with the clue minis it contains
+export function* solveTilingSearch(
+    rows: number,
+    cols: number,
+    walls: Set<string>,
+    cellMinis: Map<string, ClueMini>,
+    stats: SearchStats,
+): Search<TilingResult> {
+    const regions = getClueRegions(rows, cols, walls, cellMinis);
+
+    // Cheap area check first so an obvious mismatch doesn't trigger a search
+    for (const region of regions) {
+        if (!hasMatchingArea(region.clues.map(clue => clue.mini), region.cells.length)) {
+            return { solved: false, region: region.cells, reason: 'area' };
+        }
+    }
+
+    const placements: Placement[] = [];
+    const frame: [number, number] = [0, regions.length];
+    stats.frames.push(frame);
+    for (const region of regions) {
+        const regionPlacements = yield* tileRegionSearch(region.cells, region.clues, walls, stats);
+        if (!regionPlacements) {
+            stats.frames.pop();
+            return { solved: false, region: region.cells, reason: 'no-tiling' };
+        }
+        placements.push(...regionPlacements);
+        frame[0]++;
+    }
+    stats.frames.pop();
+
+    return { solved: true, placements };
+}
+
+
+export const solveTiling = (rows: number, cols: number, walls: Set<string>, cellMinis: Map<string, ClueMini>): TilingResult =>
+    runSearch(solveTilingSearch(rows, cols, walls, cellMinis, createSearchStats()));
+
+
+// Solver placements as regular draggable pieces
+export const toPlacedPieces = (placements: Placement[]): PlacedPiece[] => {
+    const now = Date.now();
+    return placements.map((placement, index) => ({
+        id: `piece-${now}-${index}`,
+        type: 'solution',
+        pattern: placement.pattern,
+        originalPattern: placement.originalPattern,
+        color: placement.color,
+        ...(placement.negative ? { negative: true } : {}),
+        row: placement.row,
+        col: placement.col,
+        rotation: placement.rotation,
+    }));
+};
@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SolverFailure, SolverJob, SolverOutcome, SolverRequest, SolverResponse, SolverSolution } from './protocol';
+
+
+export interface SolverStatus {
+    running: boolean;
+    nodes: number;
+    // Estimated share of the search space explored, from 0 to 1
+    progress: number;
+}
+
+export interface SolverHandlers {
+    onSolution?: (solution: SolverSolution) => void;
+    // `error` describes what went wrong when the outcome is 'error'
+    onDone?: (outcome: SolverOutcome, failure?: SolverFailure, error?: string) => void;
+}
+
+export interface SolverStartOptions {
+    // Background jobs wait for, and give way to, the jobs the user asked for
+    background?: boolean;
+}
+
+interface QueuedJob {
+    job: SolverJob;
+    background: boolean;
+    onProgress: (nodes: number, progress: number) => void;
+    onDone: (message: Extract<SolverResponse, { type: 'done' }>) => void;
+}
+
+const idleStatus: SolverStatus = { running: false, nodes: 0, progress: 0 };
+
+
+// Every useSolver caller shares one worker, which runs one job at a time:
+// the grid, the difficulty meter and the solution counter queue up rather
+// than each searching on its own thread
+let worker: Worker | null = null;
+let running: { entry: QueuedJob; jobId: number } | null = null;
+const queue: QueuedJob[] = [];
+let nextJobId = 1;
+
+
+const post = (request: SolverRequest) => getWorker().postMessage(request);
+
+
+const runNext = () => {
+    if (running) return;
+    const entry = queue.shift();
+    if (!entry) return;
+    // Each run gets a new id, so a preempted job's late messages are ignored
+    running = { entry, jobId: nextJobId++ };
+    post({ type: 'start', jobId: running.jobId, job: entry.job });
+};
+
+
+// User jobs go before the background ones, in the order they were asked for
+const enqueue = (entry: QueuedJob) => {
+    const index = entry.background ? -1 : queue.findIndex(queued => queued.background);
+    if (index === -1) queue.push(entry);
+    else queue.splice(index, 0, entry);
+};
+
+
+const handleMessage = (event: MessageEvent<SolverResponse>) => {
+    const message = event.data;
+    if (!running || message.jobId !== running.jobId) return;
+
+    const { entry } = running;
+    if (message.type === 'progress') {
+        entry.onProgress(message.nodes, message.progress);
+        return;
+    }
+    running = null;
+    entry.onDone(message);
+    runNext();
+};
+
+
+// The worker crashed or sent something unreadable: fail the running job and
+// carry on with the queue in a fresh worker
+const handleFailure = (error: string) => {
+    worker?.terminate();
+    worker = null;
+    const current = running;
+    running = null;
+    current?.entry.onDone({ type: 'done', jobId: current.jobId, nodes: 0, outcome: 'error', error });
+    runNext();
+};
+
+
+const getWorker = (): Worker => {
+    if (!worker) {
+        worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = handleMessage;
+        worker.onerror = (event) => {
+            event.preventDefault();
+            handleFailure(event.message || 'The solver stopped unexpectedly');
+        };
+        worker.onmessageerror = () => handleFailure('The solver sent an unreadable message');
+    }
+    return worker;
+};
+
+
+const submit = (entry: QueuedJob) => {
+    enqueue(entry);
+    // A user job preempts a background one, which goes back in the queue to start over
+    if (running?.entry.background && !entry.background) {
+        const preempted = running;
+        running = null;
+        post({ type: 'cancel', jobId: preempted.jobId });
+        enqueue(preempted.entry);
+    }
+    runNext();
+};
+
+
+const withdraw = (entry: QueuedJob) => {
+    const index = queue.indexOf(entry);
+    if (index !== -1) {
+        queue.splice(index, 1);
+        return;
+    }
+    if (running?.entry === entry) {
+        post({ type: 'cancel', jobId: running.jobId });
+        running = null;
+        runNext();
+    }
+};
+
+
+// Runs solver jobs on the shared worker, one job per caller at a time. Results
+// only hold for the puzzle they were computed from: when `input` changes, the
+// caller's job is dropped without calling its handlers.
+export const useSolver = (input?: unknown) => {
+    const entryRef = useRef<{ entry: QueuedJob; handlers: SolverHandlers } | null>(null);
+    const [status, setStatus] = useState<SolverStatus>(idleStatus);
+
+    const drop = useCallback(() => {
+        const current = entryRef.current;
+        if (!current) return null;
+        entryRef.current = null;
+        withdraw(current.entry);
+        setStatus(idleStatus);
+        return current;
+    }, []);
+
+    useEffect(() => () => {
+        drop();
+    }, [input, drop]);
+
+    const start = useCallback((job: SolverJob, handlers: SolverHandlers = {}, options: SolverStartOptions = {}) => {
+        // A new job replaces this caller's previous one
+        drop();
+        const entry: QueuedJob = {
+            job,
+            background: options.background ?? false,
+            onProgress: (nodes, progress) => {
+                if (entryRef.current?.entry === entry) setStatus({ running: true, nodes, progress });
+            },
+            onDone: (message) => {
+                if (entryRef.current?.entry !== entry) return;
+                entryRef.current = null;
+                setStatus(idleStatus);
+                if (message.solution) handlers.onSolution?.(message.solution);
+                handlers.onDone?.(message.outcome, message.failure, message.error);
+            },
+        };
+        entryRef.current = { entry, handlers };
+        setStatus({ running: true, nodes: 0, progress: 0 });
+        submit(entry);
+    }, [drop]);
+
+    const cancel = useCallback(() => {
+        drop()?.handlers.onDone?.('cancelled');
+    }, [drop]);
+
+    return { status, start, cancel };
+};